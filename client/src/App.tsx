@@ -4,12 +4,16 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/Home";
+import Notes from "@/pages/Notes";
+import NoteDetail from "@/pages/NoteDetail";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/notes" component={Notes} />
+      <Route path="/notes/:id" component={NoteDetail} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,88 @@
+import { useRef } from "react";
+import { Loader2, Plus } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { useAppendNotePart } from "@/hooks/use-notes";
+import type { LectureResult } from "@shared/schema";
+
+interface AddPartPanelProps {
+  noteId: number;
+  onGenerated: (result: LectureResult) => void;
+}
+
+// Continue a saved lecture with a recording made after a break
+export function AddPartPanel({ noteId, onGenerated }: AddPartPanelProps) {
+  const { toast } = useToast();
+  const { appendPart, appending, progress } = useAppendNotePart(noteId);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const result = await appendPart(file);
+
+      onGenerated(result);
+      toast({
+        title: "Part added",
+        description: "Notes rebuilt from the joined recording",
+      });
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "Could not add the recording",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-lg">Add a Recording</CardTitle>
+          <CardDescription>
+            Append the next part of this lecture and rebuild the notes
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => inputRef.current?.click()}
+          disabled={appending}
+          data-testid="button-append-part"
+        >
+          {appending ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Plus className="w-4 h-4 mr-2" />
+          )}
+          Add Part
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="audio/*,video/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) handleFile(file);
+          }}
+        />
+      </CardHeader>
+
+      {progress && (
+        <CardContent className="space-y-2">
+          <Progress value={progress.percent} />
+          <p className="text-sm text-muted-foreground">{progress.label}</p>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
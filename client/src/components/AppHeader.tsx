@@ -0,0 +1,34 @@
+import type { ReactNode } from "react";
+import { Link } from "wouter";
+import { Sparkles, Library } from "lucide-react";
+import { Button } from "./ui/button";
+
+interface AppHeaderProps {
+  // Page specific actions rendered next to the library link
+  children?: ReactNode;
+}
+
+export function AppHeader({ children }: AppHeaderProps) {
+  return (
+    <header className="border-b bg-white/80 backdrop-blur sticky top-0 z-50">
+      <div className="max-w-7xl mx-auto h-16 flex items-center justify-between px-4">
+        <Link href="/" className="flex items-center gap-2">
+          <div className="w-8 h-8 bg-primary text-white rounded-lg flex items-center justify-center">
+            <Sparkles className="w-5 h-5" />
+          </div>
+          <h1 className="text-xl font-bold">LectureAI</h1>
+        </Link>
+
+        <div className="flex items-center gap-2">
+          {children}
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/notes" data-testid="link-notes">
+              <Library className="w-4 h-4 mr-2" />
+              My Notes
+            </Link>
+          </Button>
+        </div>
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,276 @@
+import { useRef } from "react";
+import { Link } from "wouter";
+import {
+  ArrowDown,
+  ArrowUp,
+  Ban,
+  CheckCircle2,
+  Clock,
+  ExternalLink,
+  Loader2,
+  Plus,
+  X,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { BatchItem, LectureProgress } from "@/hooks/use-lecture";
+
+interface BatchListProps {
+  items: BatchItem[];
+  running: boolean;
+  // Treat the files as consecutive parts of a single lecture
+  joined: boolean;
+  // Progress of the single job when the parts are joined
+  progress?: LectureProgress | null;
+  onJoinedChange: (joined: boolean) => void;
+  onProcess: () => void;
+  // Stop the joined lecture's upload or job
+  onCancel?: () => void;
+  // Stop one file of a batch
+  onCancelItem?: (id: string) => void;
+  onAdd: (files: File[]) => void;
+  onMove: (id: string, offset: number) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+function StatusIcon({ status }: { status: BatchItem["status"] }) {
+  switch (status) {
+    case "pending":
+      return <Clock className="w-5 h-5 text-muted-foreground" />;
+    case "uploading":
+    case "processing":
+      return <Loader2 className="w-5 h-5 animate-spin text-primary" />;
+    case "completed":
+      return <CheckCircle2 className="w-5 h-5 text-green-600" />;
+    case "failed":
+      return <XCircle className="w-5 h-5 text-destructive" />;
+    case "cancelled":
+      return <Ban className="w-5 h-5 text-muted-foreground" />;
+  }
+}
+
+// Per-file status for a batch of lectures sharing the same settings,
+// or the ordered parts of one lecture
+export function BatchList({
+  items,
+  running,
+  joined,
+  progress,
+  onJoinedChange,
+  onProcess,
+  onCancel,
+  onCancelItem,
+  onAdd,
+  onMove,
+  onRemove,
+  onClear,
+}: BatchListProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const pending = items.filter((item) => item.status === "pending").length;
+  const finished = items.filter(
+    (item) =>
+      item.status === "completed" ||
+      item.status === "failed" ||
+      item.status === "cancelled"
+  ).length;
+
+  return (
+    <div className="bg-card rounded-3xl border border-border shadow-xl p-6 space-y-6 text-left">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-lg">
+          {joined ? `1 Lecture in ${items.length} Parts` : `${items.length} Lectures`}
+        </h3>
+        {!joined && (
+          <span className="text-sm text-muted-foreground">
+            {finished} of {items.length} done
+          </span>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={joined}
+          onChange={(e) => onJoinedChange(e.target.checked)}
+          disabled={running || finished > 0}
+          data-testid="checkbox-join-parts"
+        />
+        These are parts of one lecture; join them in this order
+      </label>
+
+      <ul className="divide-y rounded-xl border">
+        {items.map((item, index) => (
+          <li
+            key={item.id}
+            className="flex items-center gap-4 px-4 py-3"
+            data-testid={`batch-item-${item.id}`}
+          >
+            {joined ? (
+              <span className="w-5 text-center text-sm font-bold text-muted-foreground">
+                {index + 1}
+              </span>
+            ) : (
+              <StatusIcon status={item.status} />
+            )}
+
+            <div className="flex-1 min-w-0 space-y-1">
+              <p className="font-medium truncate">{item.file.name}</p>
+
+              {item.progress && (
+                <div className="space-y-1">
+                  <Progress value={item.progress.percent} className="h-1.5" />
+                  <p className="text-xs text-muted-foreground">
+                    {item.progress.label}
+                  </p>
+                </div>
+              )}
+
+              {item.status === "pending" && (
+                <p className="text-xs text-muted-foreground">
+                  {(item.file.size / (1024 * 1024)).toFixed(2)} MB • Waiting
+                </p>
+              )}
+
+              {item.status === "cancelled" && (
+                <p className="text-xs text-muted-foreground">Cancelled</p>
+              )}
+
+              {item.error && (
+                <p className="text-xs text-destructive">{item.error}</p>
+              )}
+            </div>
+
+            {item.status === "completed" && item.noteId && (
+              <Button variant="ghost" size="sm" asChild>
+                <Link href={`/notes/${item.noteId}`}>
+                  Open
+                  <ExternalLink className="w-4 h-4 ml-2" />
+                </Link>
+              </Button>
+            )}
+
+            {!joined &&
+              running &&
+              onCancelItem &&
+              (item.status === "pending" ||
+                item.status === "uploading" ||
+                item.status === "processing") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onCancelItem(item.id)}
+                  data-testid={`button-cancel-item-${item.id}`}
+                >
+                  Cancel
+                </Button>
+              )}
+
+            {joined && !running && (
+              <div className="flex">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onMove(item.id, -1)}
+                  disabled={index === 0}
+                  data-testid={`button-move-up-${item.id}`}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onMove(item.id, 1)}
+                  disabled={index === items.length - 1}
+                  data-testid={`button-move-down-${item.id}`}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+
+            {item.status === "pending" && !running && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onRemove(item.id)}
+                className="text-muted-foreground hover:text-destructive"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {joined && progress && (
+        <div className="space-y-2" data-testid="progress-joined">
+          <Progress value={progress.percent} className="h-2" />
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">{progress.label}</p>
+            {onCancel && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onCancel}
+                data-testid="button-cancel-joined"
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <Button
+          onClick={onProcess}
+          disabled={running || pending === 0}
+          className="flex-1 h-12"
+          data-testid="button-process-batch"
+        >
+          {running ? (
+            <div className="flex items-center gap-2">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              <span>{joined ? "Processing Lecture..." : "Processing Lectures..."}</span>
+            </div>
+          ) : joined ? (
+            "Generate Notes for the Joined Lecture"
+          ) : (
+            `Generate Notes for ${pending} Lecture${pending === 1 ? "" : "s"}`
+          )}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => inputRef.current?.click()}
+          disabled={running || finished > 0}
+          className="h-12"
+          data-testid="button-add-files"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept="audio/*,video/*,.txt,.srt,.vtt"
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.length) onAdd(Array.from(e.target.files));
+            e.target.value = "";
+          }}
+        />
+        <Button
+          variant="outline"
+          onClick={onClear}
+          disabled={running}
+          className="h-12"
+        >
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,53 @@
-import { useCallback, useState, useRef } from "react";
+import { useCallback, useEffect, useState, useRef } from "react";
 import { useDropzone } from "react-dropzone";
-import { Upload, FileAudio, X, Mic, Square, Loader2 } from "lucide-react";
+import {
+  Upload,
+  FileAudio,
+  FileText,
+  FileVideo,
+  X,
+  Mic,
+  Square,
+  Loader2,
+  Pause,
+  Play,
+  History,
+  Plus,
+} from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { Button } from "./ui/button";
+import { Progress } from "./ui/progress";
+import {
+  isTranscriptFile,
+  type LectureProgress,
+  type LectureSettings,
+} from "@/hooks/use-lecture";
+import { useLiveTranscription } from "@/hooks/use-live";
+import {
+  appendRecordingChunk,
+  createRecording,
+  deleteRecording,
+  listRecordings,
+  loadRecordingFile,
+  type StoredRecording,
+} from "@/lib/recordings";
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  // onStarted runs once the server has a job for the file
+  onFileSelect: (file: File, onStarted: () => void) => void;
+  // Called instead of selecting when several files are dropped at once
+  onFilesSelect?: (files: File[]) => void;
+  // The selected recording plus more parts of the same lecture;
+  // onStarted runs once the server has a job joining them
+  onPartsSelect?: (files: File[], onStarted: () => void) => void;
   isProcessing: boolean;
+  progress?: LectureProgress | null;
+  // Stop the upload or server job started by the process button
+  onCancel?: () => void;
+  // When set, recordings stream live and are queued on stop
+  liveSettings?: LectureSettings | null;
+  onLiveJob?: (jobId: number) => void;
 }
 
 // ============================================================
@@ -15,44 +55,174 @@ interface FileUploadProps {
 // Supports: Drag & drop, click to browse, and in-app recording
 // ============================================================
 
-export function FileUpload({ onFileSelect, isProcessing }: FileUploadProps) {
+export function FileUpload({
+  onFileSelect,
+  onFilesSelect,
+  onPartsSelect,
+  isProcessing,
+  progress,
+  onCancel,
+  liveSettings,
+  onLiveJob,
+}: FileUploadProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const live = useLiveTranscription();
+  const [finalizing, setFinalizing] = useState(false);
+  const partInputRef = useRef<HTMLInputElement>(null);
   
   // ============================================================
   // AUDIO RECORDING STATE
   // Uses browser MediaRecorder API for in-app recording
   // ============================================================
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Drag & drop handler - accepts mp3, wav, m4a files
+  // ============================================================
+  // CRASH SAFETY
+  // Chunks are copied to IndexedDB once a second while recording;
+  // the copy is dropped once the recording is handed off
+  // ============================================================
+  const storedIdRef = useRef<string | null>(null);
+  const unsavedRef = useRef<Blob[]>([]);
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+  const recordingTimeRef = useRef(0);
+  const [recoverable, setRecoverable] = useState<StoredRecording | null>(null);
+
+  // Look for a recording a crash or reload left behind
+  const findRecoverable = () =>
+    listRecordings()
+      .then(async (recordings) => {
+        for (const recording of recordings) {
+          if (recording.seconds > 0) {
+            setRecoverable(recording);
+            return;
+          }
+          await deleteRecording(recording.id);
+        }
+      })
+      .catch((err) => console.error("Could not check for recordings:", err));
+
+  useEffect(() => {
+    findRecoverable();
+  }, []);
+
+  // Leaving the page mid-recording needs a confirmation
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [isRecording]);
+
+  // Writes are chained so chunks land in the order they were recorded
+  const saveUnsaved = () => {
+    const id = storedIdRef.current;
+    const chunks = unsavedRef.current;
+    if (!id || chunks.length === 0) return saveChainRef.current;
+
+    unsavedRef.current = [];
+    const seconds = recordingTimeRef.current;
+    saveChainRef.current = saveChainRef.current
+      .then(() =>
+        appendRecordingChunk(id, new Blob(chunks, { type: "audio/webm" }), seconds)
+      )
+      .catch((err) => console.error("Could not save recording chunk:", err));
+
+    return saveChainRef.current;
+  };
+
+  const deleteStoredRecording = (id: string) => {
+    saveChainRef.current
+      .then(() => deleteRecording(id))
+      .catch((err) => console.error("Could not delete recording:", err));
+  };
+
+  // The audio reached the server (or the user threw it away)
+  const discardStoredRecording = () => {
+    const id = storedIdRef.current;
+    storedIdRef.current = null;
+    if (id) deleteStoredRecording(id);
+  };
+
+  // Another file took the recording's place; keep the copy on offer
+  const setAsideStoredRecording = () => {
+    if (!storedIdRef.current) return;
+    storedIdRef.current = null;
+    saveChainRef.current.then(findRecoverable);
+  };
+
+  const recoverRecording = async () => {
+    if (!recoverable) return;
+
+    const file = await loadRecordingFile(recoverable).catch(() => null);
+    if (file) {
+      storedIdRef.current = recoverable.id;
+      setSelectedFile(file);
+    } else {
+      await deleteRecording(recoverable.id).catch(() => undefined);
+      alert("The unfinished recording could not be read.");
+    }
+    setRecoverable(null);
+  };
+
+  const discardRecoverable = () => {
+    if (!recoverable) return;
+    deleteRecording(recoverable.id).catch((err) =>
+      console.error("Could not delete recording:", err)
+    );
+    setRecoverable(null);
+  };
+
+  // Drag & drop handler - accepts audio, video and transcript files
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    if (acceptedFiles.length > 0) {
+    setAsideStoredRecording();
+    if (acceptedFiles.length > 1 && onFilesSelect) {
+      onFilesSelect(acceptedFiles);
+    } else if (acceptedFiles.length > 0) {
       setSelectedFile(acceptedFiles[0]);
     }
-  }, []);
+  }, [onFilesSelect]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
+    // The server probes the actual content, so this is only a hint
     accept: {
-      'audio/*': ['.mp3', '.wav', '.m4a', '.webm']
+      'audio/*': ['.mp3', '.wav', '.m4a', '.webm', '.ogg', '.flac'],
+      'video/*': ['.mp4', '.mkv', '.mov', '.webm'],
+      'text/plain': ['.txt', '.srt', '.vtt']
     },
-    maxFiles: 1,
+    multiple: !!onFilesSelect,
     disabled: isProcessing || isRecording
   });
 
   const handleProcess = () => {
-    if (selectedFile) {
-      onFileSelect(selectedFile);
-    }
+    // Until there is a job, a failed upload can still be retried
+    if (selectedFile) onFileSelect(selectedFile, discardStoredRecording);
+  };
+
+  const addParts = (files: File[]) => {
+    if (!selectedFile || !onPartsSelect || files.length === 0) return;
+
+    // The parts list owns the recording now, but the saved copy stays
+    // until the joined job has been accepted
+    const id = storedIdRef.current;
+    storedIdRef.current = null;
+
+    onPartsSelect([selectedFile, ...files], () => {
+      if (id) deleteStoredRecording(id);
+    });
+    setSelectedFile(null);
   };
 
   const clearFile = (e: React.MouseEvent) => {
     e.stopPropagation();
     setSelectedFile(null);
+    discardStoredRecording();
   };
 
   // ============================================================
@@ -77,32 +247,69 @@ export function FileUpload({ onFileSelect, isProcessing }: FileUploadProps) {
       
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
+      unsavedRef.current = [];
+      recordingTimeRef.current = 0;
+      setRecoverable(null);
+
+      // Without IndexedDB (private mode) recording still works, unsaved
+      storedIdRef.current = await createRecording("audio/webm").catch((err) => {
+        console.error("Recording will not survive a reload:", err);
+        return null;
+      });
+
+      // Stream to the server too, for a transcript while recording
+      const streaming = !!liveSettings && !!onLiveJob;
+      if (streaming) live.connect(liveSettings);
       
       // Collect audio data chunks as they become available
       mediaRecorder.ondataavailable = (e) => {
         if (e.data.size > 0) {
           chunksRef.current.push(e.data);
+          unsavedRef.current.push(e.data);
+          if (streaming) live.send(e.data);
         }
       };
       
       // When recording stops, create a File from collected chunks
-      mediaRecorder.onstop = () => {
+      mediaRecorder.onstop = async () => {
         const blob = new Blob(chunksRef.current, { type: "audio/webm" });
         const file = new File([blob], "recording.webm", { type: "audio/webm" });
-        setSelectedFile(file);
         
         // Clean up: stop all audio tracks
         stream.getTracks().forEach(track => track.stop());
+        await saveUnsaved();
+
+        if (!streaming) {
+          setSelectedFile(file);
+          return;
+        }
+
+        // The server already has the audio; fall back to uploading it
+        // only if the live connection dropped
+        setFinalizing(true);
+        const jobId = await live.stop();
+        setFinalizing(false);
+
+        if (jobId) {
+          onLiveJob!(jobId);
+          discardStoredRecording();
+        } else {
+          setSelectedFile(file);
+        }
       };
       
       // Start recording with 100ms chunks for smooth processing
       mediaRecorder.start(100);
       setIsRecording(true);
+      setIsPaused(false);
       setRecordingTime(0);
       
-      // Timer to show recording duration
+      // Timer to show recording duration; also saves the last second
       timerRef.current = setInterval(() => {
-        setRecordingTime(prev => prev + 1);
+        if (mediaRecorder.state !== "recording") return;
+        recordingTimeRef.current += 1;
+        setRecordingTime(recordingTimeRef.current);
+        saveUnsaved();
       }, 1000);
       
     } catch (err) {
@@ -116,9 +323,10 @@ export function FileUpload({ onFileSelect, isProcessing }: FileUploadProps) {
    * The recorded audio is automatically converted to a File object.
    */
   const stopRecording = () => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
       mediaRecorderRef.current.stop();
       setIsRecording(false);
+      setIsPaused(false);
       
       if (timerRef.current) {
         clearInterval(timerRef.current);
@@ -127,6 +335,21 @@ export function FileUpload({ onFileSelect, isProcessing }: FileUploadProps) {
     }
   };
 
+  // Pausing keeps the same file going; the timer skips the gap
+  const togglePause = () => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder) return;
+
+    if (recorder.state === "recording") {
+      recorder.pause();
+      setIsPaused(true);
+      saveUnsaved();
+    } else if (recorder.state === "paused") {
+      recorder.resume();
+      setIsPaused(false);
+    }
+  };
+
   // Format seconds to MM:SS display
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -150,9 +373,19 @@ export function FileUpload({ onFileSelect, isProcessing }: FileUploadProps) {
           >
             {/* Animated recording indicator */}
             <div className="flex items-center justify-center gap-3 mb-6">
-              <div className="w-4 h-4 bg-destructive rounded-full animate-pulse" />
-              <span className="text-2xl font-bold font-display text-destructive">
-                Recording...
+              <div
+                className={cn(
+                  "w-4 h-4 rounded-full",
+                  isPaused ? "bg-muted-foreground" : "bg-destructive animate-pulse"
+                )}
+              />
+              <span
+                className={cn(
+                  "text-2xl font-bold font-display",
+                  isPaused ? "text-muted-foreground" : "text-destructive"
+                )}
+              >
+                {isPaused ? "Paused" : "Recording..."}
               </span>
             </div>
             
@@ -160,18 +393,61 @@ export function FileUpload({ onFileSelect, isProcessing }: FileUploadProps) {
             <div className="text-4xl font-mono font-bold text-foreground mb-8">
               {formatTime(recordingTime)}
             </div>
+
+            {/* Rolling transcript from the live connection */}
+            {liveSettings && (
+              <div
+                className="mb-8 max-h-48 overflow-y-auto rounded-xl bg-muted/40 p-4 text-left text-sm leading-relaxed"
+                data-testid="text-live-transcript"
+              >
+                {live.segments.length > 0 ? (
+                  live.segments.map((segment, idx) => (
+                    <span key={idx}>{segment.text} </span>
+                  ))
+                ) : (
+                  <span className="text-muted-foreground">
+                    {live.connected
+                      ? "Listening… the transcript appears here as you speak."
+                      : "Connecting for live transcript…"}
+                  </span>
+                )}
+              </div>
+            )}
             
-            {/* Stop recording button */}
-            <Button 
-              onClick={stopRecording}
-              variant="destructive"
-              size="lg"
-              className="gap-2"
-              data-testid="button-stop-recording"
-            >
-              <Square className="w-5 h-5" />
-              Stop Recording
-            </Button>
+            <div className="flex items-center justify-center gap-3">
+              {/* Pause / resume button */}
+              <Button
+                onClick={togglePause}
+                variant="outline"
+                size="lg"
+                className="gap-2"
+                data-testid="button-pause-recording"
+              >
+                {isPaused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+                {isPaused ? "Resume" : "Pause"}
+              </Button>
+
+              {/* Stop recording button */}
+              <Button 
+                onClick={stopRecording}
+                variant="destructive"
+                size="lg"
+                className="gap-2"
+                data-testid="button-stop-recording"
+              >
+                <Square className="w-5 h-5" />
+                Stop Recording
+              </Button>
+            </div>
+          </motion.div>
+        ) : finalizing ? (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="bg-card rounded-3xl border border-border shadow-xl p-8 flex items-center justify-center gap-3 text-muted-foreground"
+          >
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Saving recording…
           </motion.div>
         ) : !selectedFile ? (
           /* ============================================================
@@ -184,6 +460,42 @@ export function FileUpload({ onFileSelect, isProcessing }: FileUploadProps) {
             exit={{ opacity: 0, y: -10 }}
             className="space-y-4"
           >
+            {/* Recording left behind by a crash or reload */}
+            {recoverable && (
+              <div
+                className="flex flex-col sm:flex-row sm:items-center gap-4 rounded-2xl border border-amber-300 bg-amber-50 p-4 text-left"
+                data-testid="banner-recover-recording"
+              >
+                <History className="w-6 h-6 text-amber-600 shrink-0" />
+                <div className="flex-1 text-sm">
+                  <p className="font-medium text-amber-900">
+                    Unfinished recording found
+                  </p>
+                  <p className="text-amber-800">
+                    {formatTime(recoverable.seconds)} recorded on{" "}
+                    {new Date(recoverable.startedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={recoverRecording}
+                    data-testid="button-recover-recording"
+                  >
+                    Recover
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={discardRecoverable}
+                    data-testid="button-discard-recording"
+                  >
+                    Discard
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Drag & Drop Area */}
             <div
               {...getRootProps()}
@@ -203,10 +515,10 @@ export function FileUpload({ onFileSelect, isProcessing }: FileUploadProps) {
                 <Upload className="w-8 h-8" />
               </div>
               <h3 className="text-xl font-bold mb-2 font-display text-foreground">
-                {isDragActive ? "Drop audio here" : "Upload Lecture Audio"}
+                {isDragActive ? "Drop recording here" : "Upload Lecture Recording"}
               </h3>
               <p className="text-muted-foreground text-sm max-w-sm">
-                Drag & drop your lecture recording, or click to browse. Supports MP3, WAV, M4A.
+                Drag & drop your lecture recordings, or click to browse. Supports audio (MP3, WAV, M4A), video (MP4, MKV, MOV) and captions (SRT, VTT, TXT).
               </p>
             </div>
 
@@ -243,7 +555,13 @@ export function FileUpload({ onFileSelect, isProcessing }: FileUploadProps) {
             <div className="flex items-center gap-6 mb-8">
               {/* File icon */}
               <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center text-primary shrink-0">
-                <FileAudio className="w-8 h-8" />
+                {isTranscriptFile(selectedFile) ? (
+                  <FileText className="w-8 h-8" />
+                ) : selectedFile.type.startsWith("video/") ? (
+                  <FileVideo className="w-8 h-8" />
+                ) : (
+                  <FileAudio className="w-8 h-8" />
+                )}
               </div>
               
               {/* File info */}
@@ -269,6 +587,32 @@ export function FileUpload({ onFileSelect, isProcessing }: FileUploadProps) {
               </Button>
             </div>
 
+            {/* More recordings of the same lecture */}
+            {onPartsSelect && !isTranscriptFile(selectedFile) && !isProcessing && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => partInputRef.current?.click()}
+                  className="w-full mb-3 gap-2"
+                  data-testid="button-add-part"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Another Part of This Lecture
+                </Button>
+                <input
+                  ref={partInputRef}
+                  type="file"
+                  multiple
+                  accept="audio/*,video/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    addParts(Array.from(e.target.files ?? []));
+                    e.target.value = "";
+                  }}
+                />
+              </>
+            )}
+
             {/* Process button */}
             <Button 
               onClick={handleProcess} 
@@ -287,11 +631,27 @@ export function FileUpload({ onFileSelect, isProcessing }: FileUploadProps) {
               )}
             </Button>
             
-            {/* Processing hint */}
-            {isProcessing && (
-              <p className="text-center text-sm text-muted-foreground mt-4 animate-pulse">
-                This may take a few moments depending on the lecture length.
-              </p>
+            {/* Processing progress */}
+            {isProcessing && progress && (
+              <div className="mt-6 space-y-2" data-testid="progress-processing">
+                <Progress value={progress.percent} className="h-2" />
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span data-testid="text-progress-label">{progress.label}</span>
+                  <span>{progress.percent}%</span>
+                </div>
+              </div>
+            )}
+
+            {isProcessing && onCancel && (
+              <Button
+                variant="outline"
+                onClick={onCancel}
+                className="w-full mt-4"
+                data-testid="button-cancel-processing"
+              >
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
             )}
           </motion.div>
         )}
@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { History, Loader2, RefreshCw } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useNoteVersions, useRegenerateNote } from "@/hooks/use-notes";
+import type { LectureMode, LectureResult, NoteVersion } from "@shared/schema";
+
+interface RegeneratePanelProps {
+  noteId: number;
+  viewingVersionId: number | null;
+  onGenerated: (result: LectureResult) => void;
+  // null switches back to the current generation
+  onViewVersion: (version: NoteVersion | null) => void;
+}
+
+const MARK_OPTIONS = [2, 5, 10];
+
+// Re-summarize a saved transcript without uploading the audio again
+export function RegeneratePanel({
+  noteId,
+  viewingVersionId,
+  onGenerated,
+  onViewVersion,
+}: RegeneratePanelProps) {
+  const { toast } = useToast();
+  const { regenerate, regenerating, progress } = useRegenerateNote(noteId);
+  const { data: versions = [] } = useNoteVersions(noteId);
+
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<LectureMode>("theory");
+  const [selectedMarks, setSelectedMarks] = useState<number[]>([2, 5]);
+  const [instructions, setInstructions] = useState("");
+
+  const toggleMark = (mark: number) => {
+    if (selectedMarks.includes(mark)) {
+      setSelectedMarks(selectedMarks.filter((m) => m !== mark));
+    } else if (selectedMarks.length < 2) {
+      setSelectedMarks([...selectedMarks, mark]);
+    } else {
+      toast({
+        title: "Limit Reached",
+        description: "You can select maximum 2 mark types.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (selectedMarks.length === 0) {
+      toast({
+        title: "Select Marks",
+        description: "Please select at least one marks type.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const result = await regenerate({
+        mode,
+        marksList: selectedMarks,
+        instructions: instructions.trim() || undefined,
+      });
+
+      onGenerated(result);
+      onViewVersion(null);
+      setOpen(false);
+      toast({ title: "Notes regenerated", description: "Previous version saved" });
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "Regeneration failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-lg">Regenerate Notes</CardTitle>
+          <CardDescription>
+            Try another mode, marks or instructions on the same transcript
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => setOpen(!open)}
+          disabled={regenerating}
+          data-testid="button-toggle-regenerate"
+        >
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Regenerate
+        </Button>
+      </CardHeader>
+
+      {(open || regenerating || versions.length > 0) && (
+        <CardContent className="space-y-6">
+          {open && (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                {(["theory", "numerical"] as const).map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => setMode(m)}
+                    disabled={regenerating}
+                    className={`px-4 py-2 rounded-lg border text-sm font-medium ${
+                      mode === m
+                        ? "bg-purple-600 text-white"
+                        : "bg-white text-muted-foreground"
+                    }`}
+                  >
+                    {m === "theory" ? "📘 Theory Mode" : "🧮 Numerical Mode"}
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex gap-4 flex-wrap text-sm">
+                {MARK_OPTIONS.map((mark) => (
+                  <label key={mark} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedMarks.includes(mark)}
+                      onChange={() => toggleMark(mark)}
+                      disabled={regenerating}
+                    />
+                    {mark} Marks
+                  </label>
+                ))}
+              </div>
+
+              <Textarea
+                placeholder="Custom instructions, e.g. focus on derivations and include worked examples"
+                value={instructions}
+                onChange={(e) => setInstructions(e.target.value)}
+                maxLength={2000}
+                disabled={regenerating}
+                data-testid="input-regenerate-instructions"
+              />
+
+              <Button
+                onClick={handleRegenerate}
+                disabled={regenerating}
+                data-testid="button-regenerate"
+              >
+                {regenerating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Generate New Version
+              </Button>
+            </div>
+          )}
+
+          {progress && (
+            <div className="space-y-2">
+              <Progress value={progress.percent} />
+              <p className="text-sm text-muted-foreground">{progress.label}</p>
+            </div>
+          )}
+
+          {/* Earlier generations, newest first */}
+          {versions.length > 0 && (
+            <div className="space-y-2">
+              <p className="flex items-center gap-2 text-sm font-medium">
+                <History className="w-4 h-4" />
+                Earlier Versions
+              </p>
+              <ul className="divide-y rounded-md border text-sm">
+                <li className="flex items-center justify-between px-3 py-2">
+                  <span>Current</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={viewingVersionId === null}
+                    onClick={() => onViewVersion(null)}
+                  >
+                    {viewingVersionId === null ? "Viewing" : "View"}
+                  </Button>
+                </li>
+                {versions.map((version) => (
+                  <li
+                    key={version.id}
+                    className="flex items-center justify-between px-3 py-2"
+                  >
+                    <span className="text-muted-foreground">
+                      {new Date(version.createdAt).toLocaleString()} ·{" "}
+                      {version.mode} · {version.marksList.join(", ")} marks
+                      {version.instructions && " · custom instructions"}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={viewingVersionId === version.id}
+                      onClick={() => onViewVersion(version)}
+                      data-testid={`button-view-version-${version.id}`}
+                    >
+                      {viewingVersionId === version.id ? "Viewing" : "View"}
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
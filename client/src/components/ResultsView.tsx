@@ -1,5 +1,13 @@
+import { useEffect, useState } from "react";
 import { motion } from "framer-motion";
-import { FileText, BookOpen, List, GraduationCap } from "lucide-react";
+import {
+  FileText,
+  BookOpen,
+  List,
+  GraduationCap,
+  MessageCircleQuestion,
+  AlertTriangle,
+} from "lucide-react";
 import {
   Card,
   CardContent,
@@ -13,21 +21,19 @@ import {
   AccordionTrigger,
   AccordionContent,
 } from "@/components/ui/accordion";
+import { Button } from "@/components/ui/button";
+import { formatTimestamp } from "@/lib/utils";
+import { TranscriptView } from "./TranscriptView";
+import { RegeneratePanel } from "./RegeneratePanel";
+import { AddPartPanel } from "./AddPartPanel";
+import type { LectureResult, NoteVersion } from "@shared/schema";
 
 interface ResultsViewProps {
-  data: {
-    transcription: string;
-    summary: string;
-    structuredNotes: {
-      heading: string;
-      points: string[];
-    }[];
-    qaPairs: {
-      question: string;
-      answer: string;
-      marks: number;
-    }[];
-  };
+  // A finished job's result or a saved note, which has the same fields
+  data: LectureResult;
+  audioUrl?: string;
+  // Saved note behind these results; enables regeneration
+  noteId?: number;
 }
 
 const item = {
@@ -35,7 +41,36 @@ const item = {
   show: { opacity: 1, y: 0 },
 };
 
-export function ResultsView({ data }: ResultsViewProps) {
+export function ResultsView({
+  data: initialData,
+  audioUrl,
+  noteId,
+}: ResultsViewProps) {
+  const [current, setCurrent] = useState(initialData);
+  const [viewing, setViewing] = useState<NoteVersion | null>(null);
+  // Bumped when a part is added, so the player loads the joined audio
+  const [audioRevision, setAudioRevision] = useState(0);
+
+  useEffect(() => setCurrent(initialData), [initialData]);
+
+  // An archived generation shares the transcript with the current one
+  const data = viewing
+    ? {
+        ...current,
+        summary: viewing.summary,
+        structuredNotes: viewing.structuredNotes,
+        qaPairs: viewing.qaPairs,
+        classQuestions: viewing.classQuestions,
+      }
+    : current;
+
+  const classQuestions = data.classQuestions ?? [];
+
+  // Parts of the lecture that could not be processed even after retries
+  const failedChunks = data.failedChunks ?? [];
+  const missingAudio = failedChunks.filter((f) => f.stage === "transcription");
+  const missingSections = failedChunks.filter((f) => f.stage === "summary");
+
   /* 🔥 GROUP QUESTIONS BY MARKS */
   const groupedQuestions = data.qaPairs.reduce((acc, qa) => {
     const mark = qa.marks;
@@ -86,6 +121,20 @@ Answer: ${qa.answer}
       });
     });
 
+    if (classQuestions.length > 0) {
+      content += `
+
+4️⃣ QUESTIONS ASKED IN CLASS
+----------------------------------------
+`;
+      classQuestions.forEach((qa, idx) => {
+        content += `
+Q${idx + 1}. ${qa.question}
+Answer: ${qa.answer}
+`;
+      });
+    }
+
     content += `
 
 ========================================
@@ -108,6 +157,71 @@ Generated by Lecture AI
 
   return (
     <motion.div className="space-y-8 max-w-5xl mx-auto">
+      {noteId && (
+        <RegeneratePanel
+          noteId={noteId}
+          viewingVersionId={viewing?.id ?? null}
+          onGenerated={(result) =>
+            setCurrent({ ...current, ...result })
+          }
+          onViewVersion={setViewing}
+        />
+      )}
+
+      {noteId && audioUrl && (
+        <AddPartPanel
+          noteId={noteId}
+          onGenerated={(result) => {
+            setCurrent({ ...current, ...result });
+            setViewing(null);
+            setAudioRevision((revision) => revision + 1);
+          }}
+        />
+      )}
+
+      {viewing && (
+        <div className="flex items-center justify-between gap-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm">
+          <span>
+            Viewing an earlier version ({viewing.mode},{" "}
+            {viewing.marksList.join(", ")} marks)
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setViewing(null)}>
+            Back to current
+          </Button>
+        </div>
+      )}
+
+      {failedChunks.length > 0 && (
+        <div
+          className="flex gap-3 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm"
+          data-testid="banner-failed-chunks"
+        >
+          <AlertTriangle className="w-5 h-5 text-amber-600 shrink-0" />
+          <div className="space-y-1">
+            <p className="font-medium">These notes are incomplete</p>
+            {missingAudio.length > 0 && (
+              <p>
+                Not transcribed:{" "}
+                {missingAudio
+                  .map(
+                    (f) =>
+                      `${formatTimestamp(f.start ?? 0)}–${formatTimestamp(f.end ?? 0)}`
+                  )
+                  .join(", ")}
+              </p>
+            )}
+            {missingSections.length > 0 && (
+              <p>
+                {missingSections.length} transcript section
+                {missingSections.length === 1 ? " was" : "s were"} left out of
+                the notes. Regenerating may fill{" "}
+                {missingSections.length === 1 ? "it" : "them"} in.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Summary */}
       <Card className="border-primary/20 bg-primary/5">
         <CardHeader>
@@ -214,6 +328,34 @@ Generated by Lecture AI
         </motion.div>
       )}
 
+      {/* Questions Asked in Class */}
+      {classQuestions.length > 0 && (
+        <motion.div variants={item}>
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-3 mb-2">
+                <MessageCircleQuestion className="w-6 h-6 text-sky-500" />
+                <CardTitle>Questions Asked in Class</CardTitle>
+              </div>
+              <CardDescription>
+                What students asked and how the lecturer answered
+              </CardDescription>
+            </CardHeader>
+
+            <CardContent>
+              <Accordion type="single" collapsible>
+                {classQuestions.map((qa, idx) => (
+                  <AccordionItem key={idx} value={`class-${idx}`}>
+                    <AccordionTrigger>{qa.question}</AccordionTrigger>
+                    <AccordionContent>{qa.answer}</AccordionContent>
+                  </AccordionItem>
+                ))}
+              </Accordion>
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+
       {/* Transcription */}
       <Card>
         <CardHeader>
@@ -223,9 +365,15 @@ Generated by Lecture AI
           </div>
         </CardHeader>
         <CardContent>
-          <div className="max-h-64 overflow-y-auto text-sm whitespace-pre-wrap">
-            {data.transcription}
-          </div>
+          <TranscriptView
+            transcription={data.transcription}
+            segments={data.segments ?? []}
+            audioUrl={
+              audioUrl && audioRevision
+                ? `${audioUrl}?rev=${audioRevision}`
+                : audioUrl
+            }
+          />
         </CardContent>
       </Card>
     </motion.div>
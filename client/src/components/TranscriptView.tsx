@@ -0,0 +1,134 @@
+import { useEffect, useRef, useState } from "react";
+import { cn, formatTimestamp } from "@/lib/utils";
+import type { TranscriptSegment } from "@shared/schema";
+
+interface TranscriptViewProps {
+  transcription: string;
+  segments: TranscriptSegment[];
+  // Recording to play alongside the transcript, if the server kept it
+  audioUrl?: string;
+}
+
+// Transcript deep links look like #t=125 (seconds)
+function timeFromHash(): number | null {
+  const match = window.location.hash.match(/^#t=(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+// Index of the passage being spoken at `time`, or -1 before the first one
+function segmentIndexAt(segments: TranscriptSegment[], time: number | null) {
+  if (time === null) return -1;
+
+  let index = -1;
+  for (let i = 0; i < segments.length && segments[i].start <= time; i++) {
+    index = i;
+  }
+  return index;
+}
+
+export function TranscriptView({
+  transcription,
+  segments,
+  audioUrl,
+}: TranscriptViewProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const [activeIndex, setActiveIndex] = useState(() =>
+    segmentIndexAt(segments, timeFromHash())
+  );
+
+  /* 🎯 KEEP ACTIVE PASSAGE IN VIEW */
+  useEffect(() => {
+    const list = listRef.current;
+    const el = list?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`);
+    if (!list || !el) return;
+
+    // Scroll only the transcript box, never the page
+    list.scrollTo({
+      top: el.offsetTop - list.clientHeight / 3,
+      behavior: "smooth",
+    });
+  }, [activeIndex]);
+
+  const selectSegment = (segment: TranscriptSegment, index: number) => {
+    window.history.replaceState(null, "", `#t=${Math.floor(segment.start)}`);
+    setActiveIndex(index);
+
+    const audio = audioRef.current;
+    if (audio) {
+      audio.currentTime = segment.start;
+      audio.play().catch(() => {});
+    }
+  };
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const index = segmentIndexAt(segments, audio.currentTime);
+    if (index !== activeIndex) setActiveIndex(index);
+  };
+
+  // Honour a #t= deep link once the player knows the duration
+  const handleLoadedMetadata = () => {
+    const time = timeFromHash();
+    if (audioRef.current && time !== null) {
+      audioRef.current.currentTime = time;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {audioUrl && (
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          controls
+          preload="metadata"
+          className="w-full"
+          onTimeUpdate={handleTimeUpdate}
+          onLoadedMetadata={handleLoadedMetadata}
+          data-testid="audio-player"
+        />
+      )}
+
+      {segments.length > 0 ? (
+        <div
+          ref={listRef}
+          className="relative max-h-64 overflow-y-auto text-sm space-y-1"
+        >
+          {segments.map((segment, idx) => (
+            <p
+              key={idx}
+              data-index={idx}
+              className={cn(
+                "flex gap-3 rounded px-1 transition-colors",
+                activeIndex === idx && "bg-primary/10"
+              )}
+            >
+              <button
+                onClick={() => selectSegment(segment, idx)}
+                className="font-mono text-xs text-primary hover:underline shrink-0 pt-0.5"
+                data-testid={`button-timestamp-${idx}`}
+              >
+                {formatTimestamp(segment.start)}
+              </button>
+              <span>
+                {segment.speaker === "student" && (
+                  <span className="mr-2 rounded bg-sky-100 px-1.5 py-0.5 text-xs font-medium text-sky-700">
+                    Student
+                  </span>
+                )}
+                {segment.text}
+              </span>
+            </p>
+          ))}
+        </div>
+      ) : (
+        <div className="max-h-64 overflow-y-auto text-sm whitespace-pre-wrap">
+          {transcription}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,51 +1,619 @@
-import { useState } from "react";
-import { api } from "@shared/routes";
+import { useRef, useState } from "react";
+import { api, buildUrl } from "@shared/routes";
+import type { JobProgress, LectureMode, LectureResult } from "@shared/schema";
+import { uploadResumable } from "@/lib/upload";
+
+export interface LectureProgress {
+  percent: number;
+  label: string;
+}
+
+// Rejection for a job the user stopped; callers skip the error toast
+export function cancelledError() {
+  return Object.assign(new Error("Processing was cancelled"), {
+    cancelled: true,
+  });
+}
+
+// Settle a follower on a job's final update; true once it has
+function settleOnFinish(
+  update: JobProgress,
+  resolve: (result: LectureResult) => void,
+  reject: (err: Error) => void
+): boolean {
+  if (update.status === "completed" && update.result) {
+    resolve(update.result);
+  } else if (update.status === "failed") {
+    reject(new Error(update.error || "Failed to process lecture"));
+  } else if (update.status === "cancelled") {
+    reject(cancelledError());
+  } else {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Follow a job over Server-Sent Events until it completes or fails.
+ * EventSource reconnects on its own after network blips and the server
+ * replays the latest snapshot on every connect.
+ */
+export function followJob(
+  jobId: number,
+  onUpdate: (update: JobProgress) => void
+): Promise<LectureResult> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(
+      buildUrl(api.jobs.events.path, { id: jobId })
+    );
+
+    source.onmessage = (e) => {
+      const update: JobProgress = JSON.parse(e.data);
+      onUpdate(update);
+
+      if (settleOnFinish(update, resolve, reject)) source.close();
+    };
+
+    source.onerror = () => {
+      // CLOSED means the browser gave up (e.g. the job no longer exists)
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error("Lost track of the processing job"));
+      }
+    };
+  });
+}
+
+interface FollowedJob {
+  onUpdate: (update: JobProgress) => void;
+  resolve: (result: LectureResult) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Follow many jobs over one Server-Sent Events stream; browsers allow
+ * only six connections per origin, so a batch can't open one per file.
+ * Adding a job reopens the stream with the longer id list, and the
+ * server replays every job's snapshot on connect.
+ */
+export function followJobs() {
+  const followed = new Map<number, FollowedJob>();
+  let source: EventSource | null = null;
+
+  const close = () => {
+    source?.close();
+    source = null;
+  };
+
+  const finish = (jobId: number) => {
+    followed.delete(jobId);
+    if (followed.size === 0) close();
+  };
+
+  const connect = () => {
+    close();
+
+    const ids = Array.from(followed.keys()).join(",");
+    const stream = new EventSource(`${api.jobs.batchEvents.path}?ids=${ids}`);
+    source = stream;
+
+    stream.onmessage = (e) => {
+      const update: JobProgress = JSON.parse(e.data);
+      const job = followed.get(update.jobId);
+      if (!job) return;
+
+      job.onUpdate(update);
+      if (settleOnFinish(update, job.resolve, job.reject)) {
+        finish(update.jobId);
+      }
+    };
+
+    stream.addEventListener("missing", (e) => {
+      const { jobId } = JSON.parse((e as MessageEvent).data);
+      followed
+        .get(jobId)
+        ?.reject(new Error("Lost track of the processing job"));
+      finish(jobId);
+    });
+
+    stream.onerror = () => {
+      // CLOSED means the browser gave up; nothing more will arrive
+      if (source !== stream || stream.readyState !== EventSource.CLOSED) {
+        return;
+      }
+
+      for (const [jobId, job] of Array.from(followed)) {
+        job.reject(new Error("Lost track of the processing job"));
+        finish(jobId);
+      }
+    };
+  };
+
+  const follow = (
+    jobId: number,
+    onUpdate: (update: JobProgress) => void
+  ): Promise<LectureResult> =>
+    new Promise((resolve, reject) => {
+      followed.set(jobId, { onUpdate, resolve, reject });
+      connect();
+    });
+
+  return { follow, close };
+}
+
+const TRANSCRIPT_EXTENSIONS = [".txt", ".srt", ".vtt"];
+
+export function isTranscriptFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return TRANSCRIPT_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
+
+export interface LectureSettings {
+  mode: LectureMode;
+  marksList: number[];
+  separateQuestions?: boolean;
+}
+
+// Send the file in resumable parts; resolves with the upload id
+async function uploadAudio(
+  file: File,
+  label: string,
+  onProgress: (progress: LectureProgress) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  let percent = 0;
+  onProgress({ percent, label });
+
+  return uploadResumable(file, {
+    onProgress: (uploaded, total) => {
+      percent = Math.round((uploaded / total) * 100);
+      onProgress({ percent, label });
+    },
+    onRetry: () =>
+      onProgress({ percent, label: "Connection lost, resuming upload…" }),
+    signal,
+  });
+}
+
+async function readJobId(res: Response): Promise<number> {
+  if (!res.ok) {
+    // e.g. 415 when the file has no usable audio track
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message || "Failed to process lecture");
+  }
+
+  const { jobId } = await res.json();
+  return jobId;
+}
+
+/**
+ * Upload one file and queue it for processing. Resolves with the job id
+ * once the server has accepted it; the job itself runs in the background.
+ */
+export async function startLectureJob(
+  file: File,
+  settings: LectureSettings,
+  onProgress: (progress: LectureProgress) => void,
+  signal?: AbortSignal
+): Promise<number> {
+  const { mode, marksList, separateQuestions = false } = settings;
+  let res: Response;
+
+  if (isTranscriptFile(file)) {
+    // Captions are small: send them in one go, nothing to transcribe
+    onProgress({ percent: 0, label: "Uploading transcript" });
+
+    const form = new FormData();
+    form.append("transcript", file);
+    form.append("mode", mode);
+    form.append("marksList", JSON.stringify(marksList));
+
+    res = await fetch(api.transcripts.ingest.path, {
+      method: "POST",
+      body: form,
+      signal,
+    });
+  } else {
+    const uploadId = await uploadAudio(
+      file,
+      "Uploading audio",
+      onProgress,
+      signal
+    );
+
+    res = await fetch(api.process.path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        uploadId,
+        mode,
+        marksList,
+        separateQuestions,
+      }),
+      signal,
+    });
+  }
+
+  return readJobId(res);
+}
+
+/**
+ * Upload the recordings of one lecture in order and queue them as a
+ * single job; the server joins them before transcription.
+ */
+export async function startLecturePartsJob(
+  files: File[],
+  settings: LectureSettings,
+  onProgress: (progress: LectureProgress) => void,
+  signal?: AbortSignal
+): Promise<number> {
+  const { mode, marksList, separateQuestions = false } = settings;
+  const uploadIds: string[] = [];
+
+  for (const [index, file] of files.entries()) {
+    uploadIds.push(
+      await uploadAudio(
+        file,
+        `Uploading part ${index + 1} of ${files.length}`,
+        onProgress,
+        signal
+      )
+    );
+  }
+
+  const res = await fetch(api.process.path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ uploadIds, mode, marksList, separateQuestions }),
+    signal,
+  });
+
+  return readJobId(res);
+}
+
+// Add a recording to the end of a saved note's lecture
+export async function startAppendPartJob(
+  noteId: number,
+  file: File,
+  onProgress: (progress: LectureProgress) => void
+): Promise<number> {
+  const uploadId = await uploadAudio(file, "Uploading part", onProgress);
+
+  const res = await fetch(buildUrl(api.notes.appendPart.path, { id: noteId }), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ uploadId }),
+  });
+
+  return readJobId(res);
+}
+
+// Ask the server to stop a job; whoever follows it sees it cancelled
+async function requestCancel(jobId: number) {
+  const res = await fetch(buildUrl(api.jobs.cancel.path, { id: jobId }), {
+    method: "POST",
+  });
+  // 409: it finished (or started saving) first, and its follower reports that
+  if (!res.ok && res.status !== 409) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message || "Could not cancel processing");
+  }
+}
 
 export function useProcessLecture() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [result, setResult] = useState<any>(null);
+  const [result, setResult] = useState<LectureResult | null>(null);
+  const [progress, setProgress] = useState<LectureProgress | null>(null);
+  const [noteId, setNoteId] = useState<number | null>(null);
+  // False for transcript uploads, which leave no recording to play
+  const [hasAudio, setHasAudio] = useState(true);
+  // The last job that failed on the server, which can be resumed
+  const [failedJobId, setFailedJobId] = useState<number | null>(null);
+  // What cancelLecture stops: the upload before there is a job, then the job
+  const uploadRef = useRef<AbortController | null>(null);
+  const jobIdRef = useRef<number | null>(null);
 
-  const generateLecture = async (
-    file: File,
-    mode: "theory" | "numerical",
-    marksList: number[]   // ✅ NEW PARAM
+  // Wait for a job to finish, whatever started it. onStarted runs once
+  // the server has accepted the job
+  const runJob = async (
+    start: (signal: AbortSignal) => Promise<number>,
+    onStarted?: () => void
   ) => {
     setLoading(true);
     setError(null);
+    setFailedJobId(null);
+    const upload = new AbortController();
+    uploadRef.current = upload;
+    let jobId: number | null = null;
+    let jobFailed = false;
 
     try {
-      const formData = new FormData();
-      formData.append("audio", file);
-      formData.append("mode", mode);
-
-      // ✅ Append marks as JSON string
-      formData.append("marksList", JSON.stringify(marksList));
+      jobId = await start(upload.signal);
+      jobIdRef.current = jobId;
+      onStarted?.();
 
-      const res = await fetch(api.process.path, {
-        method: "POST",
-        body: formData,
+      // Server answers right away with a job id; stream its progress
+      const data = await followJob(jobId, (update) => {
+        setProgress({
+          percent: update.progress,
+          label: update.message || update.stage,
+        });
+        if (update.noteId) setNoteId(update.noteId);
+        if (update.status === "failed") jobFailed = true;
       });
 
-      if (!res.ok) {
-        throw new Error("Failed to process lecture");
-      }
-
-      const data = await res.json();
       setResult(data);
       return data;
     } catch (err: any) {
+      if (err.cancelled || upload.signal.aborted) throw cancelledError();
+
       setError(err.message || "Something went wrong");
+      if (jobFailed) setFailedJobId(jobId);
       throw err;
     } finally {
+      uploadRef.current = null;
+      jobIdRef.current = null;
       setLoading(false);
+      setProgress(null);
     }
   };
 
+  // Stop whatever runJob is waiting on; it then rejects as cancelled
+  const cancelLecture = async () => {
+    uploadRef.current?.abort();
+
+    const jobId = jobIdRef.current;
+    if (jobId !== null) await requestCancel(jobId);
+  };
+
+  const generateLecture = async (
+    file: File,
+    mode: "theory" | "numerical",
+    marksList: number[],   // ✅ NEW PARAM
+    separateQuestions = false,
+    onStarted?: () => void
+  ) => {
+    setHasAudio(!isTranscriptFile(file));
+
+    return runJob(
+      (signal) =>
+        startLectureJob(
+          file,
+          { mode, marksList, separateQuestions },
+          setProgress,
+          signal
+        ),
+      onStarted
+    );
+  };
+
+  // Several recordings of the same lecture, joined in this order
+  const generateLectureFromParts = async (
+    files: File[],
+    mode: LectureMode,
+    marksList: number[],
+    separateQuestions = false,
+    onStarted?: () => void
+  ) => {
+    setHasAudio(true);
+
+    return runJob(
+      (signal) =>
+        startLecturePartsJob(
+          files,
+          { mode, marksList, separateQuestions },
+          setProgress,
+          signal
+        ),
+      onStarted
+    );
+  };
+
+  // A live recording the server already queued when it stopped
+  const followLectureJob = (jobId: number) => {
+    setHasAudio(true);
+    return runJob(async () => jobId);
+  };
+
+  // Pick a failed job up again; finished chunks are not redone
+  const resumeLecture = async () => {
+    if (failedJobId === null) return;
+    const jobId = failedJobId;
+
+    return runJob(async () => {
+      const res = await fetch(buildUrl(api.jobs.resume.path, { id: jobId }), {
+        method: "POST",
+      });
+      return readJobId(res);
+    });
+  };
+
   return {
     generateLecture,
+    generateLectureFromParts,
+    followLectureJob,
+    resumeLecture,
+    cancelLecture,
     loading,
     error,
+    failedJobId,
     result,
+    progress,
+    noteId,
+    hasAudio,
+  };
+}
+
+/* ---------------- BATCH PROCESSING ---------------- */
+
+export type BatchItemStatus =
+  | "pending"
+  | "uploading"
+  | "processing"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  progress: LectureProgress | null;
+  // Set once the server has accepted the file
+  jobId: number | null;
+  noteId: number | null;
+  error: string | null;
+}
+
+// Uploads in flight at once; the server queue bounds the processing
+const BATCH_UPLOAD_CONCURRENCY = 2;
+
+/**
+ * Process many files with the same settings, each as its own job.
+ */
+export function useBatchProcess() {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [running, setRunning] = useState(false);
+  // What cancelItem stops, by item: the upload, then the job
+  const uploadsRef = useRef(new Map<string, AbortController>());
+  const jobIdsRef = useRef(new Map<string, number>());
+
+  const update = (id: string, changes: Partial<BatchItem>) =>
+    setItems((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, ...changes } : item))
+    );
+
+  const addFiles = (files: File[]) =>
+    setItems((prev) => [
+      ...prev,
+      ...files.map((file) => ({
+        id: crypto.randomUUID(),
+        file,
+        status: "pending" as const,
+        progress: null,
+        jobId: null,
+        noteId: null,
+        error: null,
+      })),
+    ]);
+
+  const removeItem = (id: string) =>
+    setItems((prev) => prev.filter((item) => item.id !== id));
+
+  // Order matters when the files are parts of one lecture
+  const moveItem = (id: string, offset: number) =>
+    setItems((prev) => {
+      const from = prev.findIndex((item) => item.id === id);
+      const to = from + offset;
+      if (from === -1 || to < 0 || to >= prev.length) return prev;
+
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+
+  const clear = () => {
+    uploadsRef.current.clear();
+    jobIdsRef.current.clear();
+    setItems([]);
+  };
+
+  // Stop one file: skip it if it is still waiting, abort its upload, or
+  // cancel its job, which its follower then reports
+  const cancelItem = async (id: string) => {
+    const jobId = jobIdsRef.current.get(id);
+    if (jobId !== undefined) return requestCancel(jobId);
+
+    const upload = uploadsRef.current.get(id) ?? new AbortController();
+    uploadsRef.current.set(id, upload);
+    upload.abort();
+    update(id, { status: "cancelled", progress: null });
+  };
+
+  const processAll = async (settings: LectureSettings) => {
+    const queue = items.filter((item) => item.status === "pending");
+    const following: Promise<void>[] = [];
+    const progress = followJobs();
+    setRunning(true);
+
+    const processItem = async (item: BatchItem) => {
+      const upload = uploadsRef.current.get(item.id) ?? new AbortController();
+      uploadsRef.current.set(item.id, upload);
+      // Cancelled while waiting for an upload slot
+      if (upload.signal.aborted) return;
+
+      try {
+        update(item.id, { status: "uploading" });
+        const jobId = await startLectureJob(
+          item.file,
+          settings,
+          (progress) => update(item.id, { progress }),
+          upload.signal
+        );
+        jobIdsRef.current.set(item.id, jobId);
+        // Cancelled just as the server accepted it
+        if (upload.signal.aborted) await requestCancel(jobId);
+
+        // Free the upload slot; the job is followed in the background
+        update(item.id, { status: "processing", jobId });
+        following.push(
+          progress.follow(jobId, (job) =>
+            update(item.id, {
+              progress: {
+                percent: job.progress,
+                label: job.message || job.stage,
+              },
+              noteId: job.noteId ?? null,
+            })
+          ).then(
+            () => update(item.id, { status: "completed", progress: null }),
+            (err) =>
+              update(item.id, {
+                status: err.cancelled ? "cancelled" : "failed",
+                progress: null,
+                error: err.cancelled ? null : err.message || "Processing failed",
+              })
+          )
+        );
+      } catch (err: any) {
+        if (upload.signal.aborted) {
+          update(item.id, { status: "cancelled", progress: null });
+          return;
+        }
+        update(item.id, {
+          status: "failed",
+          progress: null,
+          error: err.message || "Upload failed",
+        });
+      }
+    };
+
+    const worker = async () => {
+      for (let item = queue.shift(); item; item = queue.shift()) {
+        await processItem(item);
+      }
+    };
+
+    try {
+      await Promise.all(
+        Array.from({ length: BATCH_UPLOAD_CONCURRENCY }, worker)
+      );
+      await Promise.all(following);
+    } finally {
+      progress.close();
+      setRunning(false);
+    }
+  };
+
+  return {
+    items,
+    running,
+    addFiles,
+    removeItem,
+    moveItem,
+    clear,
+    processAll,
+    cancelItem,
   };
 }
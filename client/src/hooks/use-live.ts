@@ -0,0 +1,114 @@
+import { useRef, useState } from "react";
+import { api } from "@shared/routes";
+import type { LiveServerMessage, TranscriptSegment } from "@shared/schema";
+import type { LectureSettings } from "./use-lecture";
+
+// How long to wait for the server to queue the recording after "stop"
+const STOP_TIMEOUT_MS = 30_000;
+
+/**
+ * Stream a recording to the server while it happens and collect the
+ * rolling transcript it sends back. Best effort: if the socket fails,
+ * stop() resolves with null and the caller uploads the file instead.
+ */
+export function useLiveTranscription() {
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [connected, setConnected] = useState(false);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  // Audio recorded before the server said "ready"
+  const pendingRef = useRef<Blob[]>([]);
+  const readyRef = useRef(false);
+  const stopRef = useRef<((jobId: number | null) => void) | null>(null);
+
+  const settle = (jobId: number | null) => {
+    stopRef.current?.(jobId);
+    stopRef.current = null;
+  };
+
+  const connect = (settings: LectureSettings) => {
+    setSegments([]);
+    pendingRef.current = [];
+    readyRef.current = false;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const socket = new WebSocket(
+      `${protocol}//${window.location.host}${api.live.path}`
+    );
+    socketRef.current = socket;
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: "start", ...settings }));
+    };
+
+    socket.onmessage = (e) => {
+      const message: LiveServerMessage = JSON.parse(e.data);
+
+      switch (message.type) {
+        case "ready":
+          // The container header is in the first chunk; send in order
+          readyRef.current = true;
+          setConnected(true);
+          pendingRef.current.forEach((chunk) => socket.send(chunk));
+          pendingRef.current = [];
+          break;
+        case "partial":
+          setSegments((prev) => [...prev, ...message.segments]);
+          break;
+        case "finalizing":
+          settle(message.jobId);
+          break;
+        case "error":
+          console.error("Live transcription:", message.message);
+          break;
+      }
+    };
+
+    socket.onclose = () => {
+      socketRef.current = null;
+      readyRef.current = false;
+      setConnected(false);
+      settle(null);
+    };
+  };
+
+  const send = (chunk: Blob) => {
+    const socket = socketRef.current;
+    if (!socket) return;
+
+    if (readyRef.current) {
+      if (socket.readyState === WebSocket.OPEN) socket.send(chunk);
+    } else {
+      pendingRef.current.push(chunk);
+    }
+  };
+
+  /**
+   * Finish the recording. Resolves with the job the server queued, or
+   * null if the live connection was lost along the way.
+   */
+  const stop = (): Promise<number | null> => {
+    const socket = socketRef.current;
+
+    if (!socket || !readyRef.current || socket.readyState !== WebSocket.OPEN) {
+      socket?.close();
+      return Promise.resolve(null);
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        settle(null);
+        socket.close();
+      }, STOP_TIMEOUT_MS);
+
+      stopRef.current = (jobId) => {
+        clearTimeout(timer);
+        resolve(jobId);
+      };
+
+      socket.send(JSON.stringify({ type: "stop" }));
+    });
+  };
+
+  return { segments, connected, connect, send, stop };
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type {
+  LectureMode,
+  LectureResult,
+  Note,
+  NoteSummary,
+  NoteVersion,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  followJob,
+  startAppendPartJob,
+  type LectureProgress,
+} from "./use-lecture";
+
+export const NOTES_PAGE_SIZE = 20;
+
+export function useNotes(page: number) {
+  return useQuery<NoteSummary[]>({
+    queryKey: [api.notes.list.path, { page }],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        limit: String(NOTES_PAGE_SIZE),
+        offset: String(page * NOTES_PAGE_SIZE),
+      });
+      const res = await apiRequest("GET", `${api.notes.list.path}?${params}`);
+      return res.json();
+    },
+  });
+}
+
+export function useNote(id: number) {
+  return useQuery<Note>({
+    queryKey: [api.notes.list.path, id],
+    enabled: Number.isFinite(id),
+  });
+}
+
+export function useRenameNote() {
+  return useMutation({
+    mutationFn: async ({ id, fileName }: { id: number; fileName: string }) => {
+      const res = await apiRequest(
+        "PATCH",
+        buildUrl(api.notes.update.path, { id }),
+        { fileName }
+      );
+      return (await res.json()) as Note;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.notes.list.path] });
+    },
+  });
+}
+
+export function useDeleteNote() {
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", buildUrl(api.notes.delete.path, { id }));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.notes.list.path] });
+    },
+  });
+}
+
+export function useNoteVersions(id: number) {
+  return useQuery<NoteVersion[]>({
+    queryKey: [api.notes.list.path, id, "versions"],
+    enabled: Number.isFinite(id),
+  });
+}
+
+export interface RegenerateSettings {
+  mode: LectureMode;
+  marksList: number[];
+  instructions?: string;
+}
+
+/**
+ * Re-run the summary for a saved note with new settings, following the
+ * background job until the new generation is saved.
+ */
+export function useRegenerateNote(id: number) {
+  const [regenerating, setRegenerating] = useState(false);
+  const [progress, setProgress] = useState<LectureProgress | null>(null);
+
+  const regenerate = async (
+    settings: RegenerateSettings
+  ): Promise<LectureResult> => {
+    setRegenerating(true);
+    setProgress({ percent: 0, label: "Starting" });
+
+    try {
+      const res = await apiRequest(
+        "POST",
+        buildUrl(api.notes.regenerate.path, { id }),
+        settings
+      );
+      const { jobId } = await res.json();
+
+      const result = await followJob(jobId, (update) =>
+        setProgress({
+          percent: update.progress,
+          label: update.message || update.stage,
+        })
+      );
+
+      queryClient.invalidateQueries({ queryKey: [api.notes.list.path] });
+      return result;
+    } finally {
+      setRegenerating(false);
+      setProgress(null);
+    }
+  };
+
+  return { regenerate, regenerating, progress };
+}
+
+/**
+ * Upload another recording of the note's lecture. The server joins it
+ * after the current audio and runs the whole pipeline again.
+ */
+export function useAppendNotePart(id: number) {
+  const [appending, setAppending] = useState(false);
+  const [progress, setProgress] = useState<LectureProgress | null>(null);
+
+  const appendPart = async (file: File): Promise<LectureResult> => {
+    setAppending(true);
+
+    try {
+      const jobId = await startAppendPartJob(id, file, setProgress);
+
+      const result = await followJob(jobId, (update) =>
+        setProgress({
+          percent: update.progress,
+          label: update.message || update.stage,
+        })
+      );
+
+      queryClient.invalidateQueries({ queryKey: [api.notes.list.path] });
+      return result;
+    } finally {
+      setAppending(false);
+      setProgress(null);
+    }
+  };
+
+  return { appendPart, appending, progress };
+}
@@ -0,0 +1,154 @@
+// Recordings are kept in IndexedDB while they happen, so a crash or
+// reload mid-lecture leaves something to recover
+const DB_NAME = "lecture-recordings";
+const DB_VERSION = 1;
+
+export interface StoredRecording {
+  id: string;
+  mimeType: string;
+  startedAt: number;
+  updatedAt: number;
+  // Recorded time, excluding pauses
+  seconds: number;
+}
+
+interface StoredChunk {
+  recordingId: string;
+  data: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore("recordings", { keyPath: "id" });
+      // Auto-increment keys keep chunks in the order they were written
+      const chunks = db.createObjectStore("chunks", { autoIncrement: true });
+      chunks.createIndex("recordingId", "recordingId");
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/* ---------------- WRITING ---------------- */
+
+export async function createRecording(mimeType: string): Promise<string> {
+  const db = await openDb();
+  const now = Date.now();
+  const recording: StoredRecording = {
+    id: crypto.randomUUID(),
+    mimeType,
+    startedAt: now,
+    updatedAt: now,
+    seconds: 0,
+  };
+
+  const tx = db.transaction("recordings", "readwrite");
+  tx.objectStore("recordings").put(recording);
+  await transactionDone(tx);
+
+  return recording.id;
+}
+
+/**
+ * Add recorded audio and the running duration in one transaction, so
+ * the stored length always matches the stored audio.
+ */
+export async function appendRecordingChunk(
+  id: string,
+  data: Blob,
+  seconds: number
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(["recordings", "chunks"], "readwrite");
+  const recordings = tx.objectStore("recordings");
+
+  const recording: StoredRecording | undefined = await requestToPromise(
+    recordings.get(id)
+  );
+  if (recording) {
+    recordings.put({ ...recording, seconds, updatedAt: Date.now() });
+    const chunk: StoredChunk = { recordingId: id, data };
+    tx.objectStore("chunks").add(chunk);
+  }
+
+  await transactionDone(tx);
+}
+
+export async function deleteRecording(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(["recordings", "chunks"], "readwrite");
+
+  tx.objectStore("recordings").delete(id);
+  const index = tx.objectStore("chunks").index("recordingId");
+  const keys = await requestToPromise(index.getAllKeys(id));
+  keys.forEach((key) => tx.objectStore("chunks").delete(key));
+
+  await transactionDone(tx);
+}
+
+/* ---------------- RECOVERY ---------------- */
+
+export async function listRecordings(): Promise<StoredRecording[]> {
+  const db = await openDb();
+  const tx = db.transaction("recordings", "readonly");
+  const recordings: StoredRecording[] = await requestToPromise(
+    tx.objectStore("recordings").getAll()
+  );
+
+  return recordings.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+// Reassemble a stored recording into a file ready for upload
+export async function loadRecordingFile(
+  recording: StoredRecording
+): Promise<File | null> {
+  const db = await openDb();
+  const tx = db.transaction("chunks", "readonly");
+  const chunks: StoredChunk[] = await requestToPromise(
+    tx.objectStore("chunks").index("recordingId").getAll(recording.id)
+  );
+
+  if (chunks.length === 0) return null;
+
+  const stamp = new Date(recording.startedAt)
+    .toISOString()
+    .slice(0, 16)
+    .replace(/[:T]/g, "-");
+  const blob = new Blob(
+    chunks.map((chunk) => chunk.data),
+    { type: recording.mimeType }
+  );
+
+  return new File([blob], `recording-${stamp}.webm`, {
+    type: recording.mimeType,
+  });
+}
@@ -0,0 +1,129 @@
+import { api, buildUrl } from "@shared/routes";
+
+const CHUNK_SIZE = 5 * 1024 * 1024;
+const MAX_CONSECUTIVE_FAILURES = 8;
+
+export interface UploadOptions {
+  onProgress?: (uploaded: number, total: number) => void;
+  // Called before each retry after a failed part
+  onRetry?: (attempt: number) => void;
+  // Stops the upload; what was sent is kept so a retry resumes it
+  signal?: AbortSignal;
+}
+
+// Remember upload ids so a reload can resume the same file
+function storageKey(file: File) {
+  return `upload:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+function waitForOnline() {
+  if (navigator.onLine) return Promise.resolve();
+  return new Promise<void>((resolve) =>
+    window.addEventListener("online", () => resolve(), { once: true })
+  );
+}
+
+async function createUpload(file: File): Promise<string> {
+  const res = await fetch(api.uploads.create.path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ fileName: file.name, size: file.size }),
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message || "Could not start upload");
+  }
+
+  const { id } = await res.json();
+  localStorage.setItem(storageKey(file), id);
+  return id;
+}
+
+// Server side offset, or null when the upload is gone
+async function fetchOffset(id: string): Promise<number | null> {
+  const res = await fetch(buildUrl(api.uploads.status.path, { id }), {
+    method: "HEAD",
+    cache: "no-store",
+  });
+
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Upload status check failed (${res.status})`);
+
+  return Number(res.headers.get("Upload-Offset"));
+}
+
+/**
+ * Upload a file in parts using the server's tus-style protocol and
+ * resolve with the upload id. Failed parts are retried with backoff,
+ * re-syncing the offset from the server first, so a dropped
+ * connection (or a page reload) resumes instead of starting over.
+ */
+export async function uploadResumable(
+  file: File,
+  { onProgress, onRetry, signal }: UploadOptions = {}
+): Promise<string> {
+  let id = localStorage.getItem(storageKey(file));
+  let offset = id ? await fetchOffset(id).catch(() => null) : null;
+
+  if (!id || offset === null) {
+    id = await createUpload(file);
+    offset = 0;
+  }
+
+  onProgress?.(offset, file.size);
+
+  let failures = 0;
+
+  while (offset < file.size) {
+    try {
+      const res = await fetch(buildUrl(api.uploads.append.path, { id }), {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/offset+octet-stream",
+          "Upload-Offset": String(offset),
+        },
+        body: file.slice(offset, offset + CHUNK_SIZE),
+        signal,
+      });
+
+      // 4xx other than an offset conflict will not fix itself
+      if (res.status >= 400 && res.status < 500 && res.status !== 409) {
+        const body = await res.json().catch(() => null);
+        localStorage.removeItem(storageKey(file));
+        throw Object.assign(new Error(body?.message || "Upload rejected"), {
+          fatal: true,
+        });
+      }
+
+      if (!res.ok) throw new Error(`Upload part failed (${res.status})`);
+
+      offset = Number(res.headers.get("Upload-Offset"));
+      failures = 0;
+      onProgress?.(offset, file.size);
+    } catch (err: any) {
+      if (err.fatal || signal?.aborted) throw err;
+      if (++failures > MAX_CONSECUTIVE_FAILURES) throw err;
+
+      onRetry?.(failures);
+      await waitForOnline();
+      // Exponential backoff capped at 30s
+      await sleep(Math.min(1000 * 2 ** (failures - 1), 30000));
+      signal?.throwIfAborted();
+
+      const serverOffset = await fetchOffset(id).catch(() => undefined);
+      if (serverOffset === null) {
+        localStorage.removeItem(storageKey(file));
+        throw new Error("Upload expired on the server, please try again");
+      }
+      if (serverOffset !== undefined) offset = serverOffset;
+    }
+  }
+
+  localStorage.removeItem(storageKey(file));
+  return id;
+}
@@ -1,21 +1,65 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { AppHeader } from "@/components/AppHeader";
 import { FileUpload } from "@/components/FileUpload";
+import { BatchList } from "@/components/BatchList";
 import { ResultsView } from "@/components/ResultsView";
-import { useProcessLecture } from "@/hooks/use-lecture";
+import {
+  isTranscriptFile,
+  useBatchProcess,
+  useProcessLecture,
+} from "@/hooks/use-lecture";
 import { useToast } from "@/hooks/use-toast";
-import { Sparkles, ArrowLeft } from "lucide-react";
+import { Link } from "wouter";
+import { AlertTriangle, ArrowLeft, BookmarkCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { api, buildUrl } from "@shared/routes";
 
 export default function Home() {
-  const { generateLecture, loading, result } = useProcessLecture();
+  const {
+    generateLecture,
+    generateLectureFromParts,
+    followLectureJob,
+    resumeLecture,
+    cancelLecture,
+    loading,
+    error,
+    failedJobId,
+    result,
+    progress,
+    noteId,
+    hasAudio,
+  } = useProcessLecture();
+  const batch = useBatchProcess();
   const { toast } = useToast();
 
+  // A cancelled job is what the user asked for, not an error
+  const showFailure = (err: any) => {
+    if (err.cancelled) {
+      toast({ title: "Cancelled", description: "Processing was stopped." });
+      return;
+    }
+
+    toast({
+      title: "Error",
+      description: err.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
   const [mode, setMode] = useState<"theory" | "numerical">("theory");
 
   // ✅ MARKS STATE
   const [selectedMarks, setSelectedMarks] = useState<number[]>([]);
   const [customMarks, setCustomMarks] = useState<number | "">("");
 
+  // Diarize the lecture and list student questions separately
+  const [separateQuestions, setSeparateQuestions] = useState(false);
+
+  // Several files dropped together are parts of one lecture
+  const [joinParts, setJoinParts] = useState(false);
+  // Set when the parts came from "Add another part" on a saved recording
+  const partsStartedRef = useRef<(() => void) | null>(null);
+
   const toggleMark = (mark: number) => {
     if (selectedMarks.includes(mark)) {
       setSelectedMarks(selectedMarks.filter((m) => m !== mark));
@@ -45,7 +89,7 @@ export default function Home() {
     setCustomMarks("");
   };
 
-  const handleFileSelect = async (file: File) => {
+  const handleFileSelect = async (file: File, onStarted?: () => void) => {
     if (selectedMarks.length === 0) {
       toast({
         title: "Select Marks",
@@ -56,19 +100,112 @@ export default function Home() {
     }
 
     try {
-      await generateLecture(file, mode, selectedMarks);
+      await generateLecture(
+        file,
+        mode,
+        selectedMarks,
+        separateQuestions,
+        onStarted
+      );
+
+      toast({
+        title: "Success",
+        description: "Lecture processed successfully",
+      });
+    } catch (err: any) {
+      showFailure(err);
+    }
+  };
+
+  // The live recorder queues its own job; just follow it
+  const handleLiveJob = async (jobId: number) => {
+    try {
+      await followLectureJob(jobId);
+      toast({
+        title: "Success",
+        description: "Lecture processed successfully",
+      });
+    } catch (err: any) {
+      showFailure(err);
+    }
+  };
+
+  const handleCancel = () => {
+    cancelLecture().catch(showFailure);
+  };
 
+  // Carry on from the chunks the failed job already finished
+  const handleResume = async () => {
+    try {
+      await resumeLecture();
       toast({
         title: "Success",
         description: "Lecture processed successfully",
       });
     } catch (err: any) {
+      showFailure(err);
+    }
+  };
+
+  // Several files: one job each, all with the settings above
+  const handleBatchProcess = async () => {
+    if (selectedMarks.length === 0) {
       toast({
-        title: "Error",
-        description: err.message || "Something went wrong",
+        title: "Select Marks",
+        description: "Please select at least one marks type.",
         variant: "destructive",
       });
+      return;
+    }
+
+    if (joinParts) {
+      if (batch.items.some((item) => isTranscriptFile(item.file))) {
+        toast({
+          title: "Audio Only",
+          description: "Only recordings can be joined into one lecture.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      try {
+        await generateLectureFromParts(
+          batch.items.map((item) => item.file),
+          mode,
+          selectedMarks,
+          separateQuestions,
+          () => {
+            partsStartedRef.current?.();
+            partsStartedRef.current = null;
+          }
+        );
+        toast({
+          title: "Success",
+          description: "Lecture processed successfully",
+        });
+      } catch (err: any) {
+        showFailure(err);
+      }
+      return;
     }
+
+    await batch.processAll({
+      mode,
+      marksList: selectedMarks,
+      separateQuestions,
+    });
+
+    toast({
+      title: "Batch finished",
+      description: "Open each lecture from the list or My Notes",
+    });
+  };
+
+  // "Add another part" on a single file starts a joined lecture
+  const handlePartsSelect = (files: File[], onStarted: () => void) => {
+    partsStartedRef.current = onStarted;
+    setJoinParts(true);
+    batch.addFiles(files);
   };
 
   const reset = () => {
@@ -77,23 +214,22 @@ export default function Home() {
 
   return (
     <div className="min-h-screen bg-background pb-20">
-      <header className="border-b bg-white/80 backdrop-blur sticky top-0 z-50">
-        <div className="max-w-7xl mx-auto h-16 flex items-center justify-between px-4">
-          <div className="flex items-center gap-2">
-            <div className="w-8 h-8 bg-primary text-white rounded-lg flex items-center justify-center">
-              <Sparkles className="w-5 h-5" />
-            </div>
-            <h1 className="text-xl font-bold">LectureAI</h1>
-          </div>
-
-          {result && (
-            <Button variant="ghost" size="sm" onClick={reset}>
-              <ArrowLeft className="w-4 h-4 mr-2" />
-              Upload Another
-            </Button>
-          )}
-        </div>
-      </header>
+      <AppHeader>
+        {result && noteId && (
+          <Button variant="ghost" size="sm" asChild>
+            <Link href={`/notes/${noteId}`} data-testid="link-saved-note">
+              <BookmarkCheck className="w-4 h-4 mr-2" />
+              Saved Note
+            </Link>
+          </Button>
+        )}
+        {result && (
+          <Button variant="ghost" size="sm" onClick={reset}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Upload Another
+          </Button>
+        )}
+      </AppHeader>
 
       <main className="max-w-7xl mx-auto px-4 pt-12">
         {!result ? (
@@ -170,14 +306,85 @@ export default function Home() {
               </div>
             </div>
 
-            <FileUpload
-              onFileSelect={handleFileSelect}
-              isProcessing={loading}
-            />
+            {/* CLASS QUESTIONS */}
+            <label className="flex items-center gap-2 text-sm text-left">
+              <input
+                type="checkbox"
+                checked={separateQuestions}
+                onChange={(e) => setSeparateQuestions(e.target.checked)}
+                data-testid="checkbox-separate-questions"
+              />
+              List questions asked by students separately
+            </label>
+
+            {batch.items.length > 0 ? (
+              <BatchList
+                items={batch.items}
+                running={batch.running || loading}
+                joined={joinParts}
+                progress={progress}
+                onJoinedChange={setJoinParts}
+                onProcess={handleBatchProcess}
+                onCancel={handleCancel}
+                onCancelItem={(id) => batch.cancelItem(id).catch(showFailure)}
+                onAdd={batch.addFiles}
+                onMove={batch.moveItem}
+                onRemove={batch.removeItem}
+                onClear={() => {
+                  batch.clear();
+                  setJoinParts(false);
+                  partsStartedRef.current = null;
+                }}
+              />
+            ) : (
+              <FileUpload
+                onFileSelect={handleFileSelect}
+                onFilesSelect={batch.addFiles}
+                onPartsSelect={handlePartsSelect}
+                isProcessing={loading}
+                progress={progress}
+                onCancel={handleCancel}
+                // Live transcript needs the settings up front
+                liveSettings={
+                  selectedMarks.length > 0
+                    ? { mode, marksList: selectedMarks, separateQuestions }
+                    : null
+                }
+                onLiveJob={handleLiveJob}
+              />
+            )}
+
+            {failedJobId !== null && !loading && (
+              <div
+                className="flex flex-col sm:flex-row sm:items-center gap-4 rounded-2xl border border-destructive/30 bg-destructive/5 p-4 text-left"
+                data-testid="banner-job-failed"
+              >
+                <AlertTriangle className="w-6 h-6 text-destructive shrink-0" />
+                <div className="flex-1 text-sm">
+                  <p className="font-medium">Processing stopped</p>
+                  <p className="text-muted-foreground">{error}</p>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={handleResume}
+                  data-testid="button-resume-job"
+                >
+                  Resume
+                </Button>
+              </div>
+            )}
 
           </div>
         ) : (
-          <ResultsView data={result} />
+          <ResultsView
+            data={result}
+            noteId={noteId ?? undefined}
+            audioUrl={
+              noteId && hasAudio
+                ? buildUrl(api.notes.audio.path, { id: noteId })
+                : undefined
+            }
+          />
         )}
       </main>
     </div>
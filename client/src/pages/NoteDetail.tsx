@@ -0,0 +1,52 @@
+import { Link, useParams } from "wouter";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { AppHeader } from "@/components/AppHeader";
+import { ResultsView } from "@/components/ResultsView";
+import { Button } from "@/components/ui/button";
+import { useNote } from "@/hooks/use-notes";
+import { api, buildUrl } from "@shared/routes";
+
+export default function NoteDetail() {
+  const params = useParams<{ id: string }>();
+  const { data: note, isLoading, error } = useNote(Number(params.id));
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <AppHeader>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/notes">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            All Notes
+          </Link>
+        </Button>
+      </AppHeader>
+
+      <main className="max-w-7xl mx-auto px-4 pt-12">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !note ? (
+          <p className="text-center text-muted-foreground">
+            This lecture could not be found.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <h2 className="text-3xl font-bold max-w-5xl mx-auto truncate">
+              {note.fileName}
+            </h2>
+            <ResultsView
+              data={note}
+              noteId={note.id}
+              audioUrl={
+                note.audioFile
+                  ? buildUrl(api.notes.audio.path, { id: note.id })
+                  : undefined
+              }
+            />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
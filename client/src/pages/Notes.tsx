@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { FileText, Pencil, Trash2, Check, X, Loader2 } from "lucide-react";
+import { AppHeader } from "@/components/AppHeader";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  NOTES_PAGE_SIZE,
+  useDeleteNote,
+  useNotes,
+  useRenameNote,
+} from "@/hooks/use-notes";
+import { useToast } from "@/hooks/use-toast";
+
+export default function Notes() {
+  const [page, setPage] = useState(0);
+  const { data: notes, isLoading } = useNotes(page);
+  const renameNote = useRenameNote();
+  const deleteNote = useDeleteNote();
+  const { toast } = useToast();
+
+  // Inline rename state
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const startRename = (id: number, fileName: string) => {
+    setEditingId(id);
+    setDraftName(fileName);
+  };
+
+  const saveRename = async () => {
+    if (editingId === null || !draftName.trim()) return;
+
+    try {
+      await renameNote.mutateAsync({ id: editingId, fileName: draftName.trim() });
+      setEditingId(null);
+    } catch (err: any) {
+      toast({
+        title: "Rename failed",
+        description: err.message || "Something went wrong",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (id: number, fileName: string) => {
+    if (!window.confirm(`Delete "${fileName}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteNote.mutateAsync(id);
+    } catch (err: any) {
+      toast({
+        title: "Delete failed",
+        description: err.message || "Something went wrong",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <AppHeader />
+
+      <main className="max-w-3xl mx-auto px-4 pt-12 space-y-6">
+        <h2 className="text-3xl font-bold">My Notes</h2>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !notes?.length ? (
+          <p className="text-muted-foreground" data-testid="text-notes-empty">
+            {page === 0
+              ? "No saved lectures yet. Upload one to get started."
+              : "No more lectures."}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {notes.map((note) => (
+              <Card key={note.id} data-testid={`card-note-${note.id}`}>
+                <CardContent className="flex items-center gap-4 py-4">
+                  <FileText className="w-6 h-6 text-primary shrink-0" />
+
+                  <div className="flex-1 min-w-0">
+                    {editingId === note.id ? (
+                      <form
+                        className="flex gap-2"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          saveRename();
+                        }}
+                      >
+                        <Input
+                          autoFocus
+                          value={draftName}
+                          onChange={(e) => setDraftName(e.target.value)}
+                          data-testid="input-rename-note"
+                        />
+                        <Button
+                          type="submit"
+                          size="icon"
+                          variant="ghost"
+                          disabled={renameNote.isPending}
+                        >
+                          <Check className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => setEditingId(null)}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </form>
+                    ) : (
+                      <Link
+                        href={`/notes/${note.id}`}
+                        className="block hover:underline"
+                      >
+                        <p className="font-semibold truncate">{note.fileName}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {format(new Date(note.createdAt), "PPp")}
+                        </p>
+                      </Link>
+                    )}
+                  </div>
+
+                  {editingId !== note.id && (
+                    <div className="flex gap-1">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => startRename(note.id, note.fileName)}
+                        data-testid={`button-rename-${note.id}`}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="hover:text-destructive"
+                        onClick={() => handleDelete(note.id, note.fileName)}
+                        disabled={deleteNote.isPending}
+                        data-testid={`button-delete-${note.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        <div className="flex justify-between">
+          <Button
+            variant="outline"
+            onClick={() => setPage((p) => p - 1)}
+            disabled={page === 0}
+          >
+            Newer
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setPage((p) => p + 1)}
+            disabled={!notes || notes.length < NOTES_PAGE_SIZE}
+          >
+            Older
+          </Button>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+CREATE TABLE "jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"file_name" text NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"stage" text DEFAULT 'queued' NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"message" text,
+	"result" jsonb,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "notes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"file_name" text NOT NULL,
+	"transcription" text NOT NULL,
+	"summary" text NOT NULL,
+	"structured_notes" jsonb NOT NULL,
+	"qa_pairs" jsonb NOT NULL
+);
@@ -0,0 +1,3 @@
+ALTER TABLE "jobs" ADD COLUMN "note_id" integer;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "created_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "notes" ADD COLUMN "segments" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "notes" ADD COLUMN "class_questions" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "notes" ADD COLUMN "audio_file" text;
\ No newline at end of file
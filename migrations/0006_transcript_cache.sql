@@ -0,0 +1,7 @@
+CREATE TABLE "transcript_cache" (
+	"key" text PRIMARY KEY NOT NULL,
+	"transcription" text NOT NULL,
+	"segments" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"chunks" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,17 @@
+CREATE TABLE "note_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"note_id" integer NOT NULL,
+	"mode" text NOT NULL,
+	"marks_list" jsonb NOT NULL,
+	"instructions" text,
+	"summary" text NOT NULL,
+	"structured_notes" jsonb NOT NULL,
+	"qa_pairs" jsonb NOT NULL,
+	"class_questions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "mode" text DEFAULT 'theory' NOT NULL;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "marks_list" jsonb DEFAULT '[2,5]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "instructions" text;--> statement-breakpoint
+ALTER TABLE "note_versions" ADD CONSTRAINT "note_versions_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
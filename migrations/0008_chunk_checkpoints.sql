@@ -0,0 +1,3 @@
+ALTER TABLE "jobs" ADD COLUMN "input" jsonb;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "checkpoint" jsonb;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "failed_chunks" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+  classQuestionItemSchema,
+  qaPairItemSchema,
+  structuredNoteItemSchema,
+} from "@shared/schema";
+import { generateAISummary, sectionKey } from "./ai";
+
+vi.hoisted(() => {
+  process.env.LLM_PROVIDER = "fake";
+});
+
+const transcript =
+  "Respiration turns glucose into ATP. It happens in the mitochondria.";
+
+describe("generateAISummary (fake provider)", () => {
+  it("returns notes in the shape the rest of the app stores", async () => {
+    const onProgress = vi.fn();
+
+    const result = await generateAISummary(
+      transcript,
+      "theory",
+      [2, 5],
+      onProgress
+    );
+
+    expect(result).toEqual({
+      transcription: transcript,
+      summary: transcript,
+      structuredNotes: [
+        { heading: "Transcript excerpt", points: [transcript] },
+      ],
+      qaPairs: [
+        expect.objectContaining({ marks: 2 }),
+        expect.objectContaining({ marks: 5 }),
+      ],
+      classQuestions: [],
+      failedSections: [],
+    });
+    z.array(structuredNoteItemSchema).parse(result.structuredNotes);
+    z.array(qaPairItemSchema).parse(result.qaPairs);
+    expect(onProgress).toHaveBeenCalledWith({ type: "qa_generation" });
+  });
+
+  it("summarizes a long transcript section by section", async () => {
+    const long = "a".repeat(3500) + "b".repeat(100);
+    const onSection = vi.fn();
+
+    const result = await generateAISummary(long, "numerical", [10], undefined, {
+      onSection,
+    });
+
+    expect(result.structuredNotes).toHaveLength(2);
+    expect(onSection).toHaveBeenCalledTimes(2);
+    expect(result.qaPairs.map((qa) => qa.marks)).toEqual([10]);
+  });
+
+  it("reuses sections an earlier attempt finished", async () => {
+    const saved = {
+      summary: "Saved summary",
+      structuredNotes: [{ heading: "Saved", points: [] }],
+    };
+    const onSection = vi.fn();
+
+    const result = await generateAISummary(transcript, "theory", [2], undefined, {
+      completedSections: { [sectionKey(transcript)]: saved },
+      onSection,
+    });
+
+    expect(result.summary).toBe("Saved summary");
+    expect(result.structuredNotes).toEqual(saved.structuredNotes);
+    expect(onSection).not.toHaveBeenCalled();
+  });
+
+  it("lists the questions students asked", async () => {
+    const result = await generateAISummary(transcript, "theory", [2], undefined, {
+      classExchanges: [
+        { question: "Is ATP stored?", response: "Only briefly." },
+      ],
+    });
+
+    expect(result.classQuestions).toEqual([
+      { question: "Is ATP stored?", answer: "Sample answer" },
+    ]);
+    z.array(classQuestionItemSchema).parse(result.classQuestions);
+  });
+});
@@ -1,10 +1,42 @@
-import Groq from "groq-sdk";
+import { createHash } from "crypto";
+import type { LectureMode, ProgressEvent } from "@shared/schema";
+import {
+  getLLMProvider,
+  type ChatMessage,
+  type LLMProvider,
+} from "./services/llm";
+
+export type { LectureMode };
+
+// A student turn and what the lecturer said right after it
+export interface ClassExchange {
+  question: string;
+  response: string;
+}
 
-const groq = new Groq({
-  apiKey: process.env.GROQ_API_KEY!,
-});
+export interface SummaryOptions {
+  // When present, build a "Questions asked in class" section from them
+  classExchanges?: ClassExchange[];
+  // Extra guidance from the user, e.g. "focus on derivations"
+  instructions?: string;
+  // Sections summarized by an earlier attempt, keyed by sectionKey
+  completedSections?: Record<string, SummarySection>;
+  // Called as each section is summarized, so it can be checkpointed
+  onSection?: (key: string, section: SummarySection) => void;
+  // Cancels outstanding requests; the summary rejects with its reason
+  signal?: AbortSignal;
+}
 
-export type LectureMode = "theory" | "numerical";
+export interface SummarySection {
+  summary: string;
+  structuredNotes: AISummary["structuredNotes"];
+}
+
+// A transcript section that still failed after every attempt
+export interface FailedSection {
+  index: number;
+  error: string;
+}
 
 export interface AISummary {
   transcription: string;
@@ -18,6 +50,11 @@ export interface AISummary {
     answer: string;
     marks: number;
   }[];
+  classQuestions: {
+    question: string;
+    answer: string;
+  }[];
+  failedSections: FailedSection[];
 }
 
 /* ---------------- TOKEN SAFE CHUNKING ---------------- */
@@ -34,6 +71,15 @@ function chunkText(text: string, maxLength = 3500): string[] {
   return chunks;
 }
 
+// Sections are identified by content, so a resumed job whose transcript
+// changed (a failed chunk came back) only redoes the sections that moved
+export function sectionKey(text: string): string {
+  return createHash("sha1").update(text).digest("hex");
+}
+
+// Passes over the sections; later passes only retry the failed ones
+const SECTION_ATTEMPTS = Number(process.env.CHUNK_ATTEMPTS) || 2;
+
 /* ---------------- SAFE JSON PARSER ---------------- */
 
 function safeJSONParse(content: string): any | null {
@@ -48,30 +94,110 @@ function safeJSONParse(content: string): any | null {
   }
 }
 
+/* ---------------- USER INSTRUCTIONS ---------------- */
+
+function withInstructions(
+  prompt: string,
+  instructions?: string
+): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+
+  if (instructions?.trim()) {
+    messages.push({
+      role: "system",
+      content: `Additional instructions from the user. Follow them, but always keep the required JSON format and language rules:\n${instructions.trim()}`,
+    });
+  }
+
+  messages.push({ role: "user", content: prompt });
+  return messages;
+}
+
+/* ---------------- CLASS QUESTIONS ---------------- */
+
+async function generateClassQuestions(
+  llm: LLMProvider,
+  exchanges: ClassExchange[],
+  signal?: AbortSignal
+): Promise<AISummary["classQuestions"]> {
+  const prompt = `
+You are an academic lecture assistant.
+
+IMPORTANT LANGUAGE RULES:
+- The content must be strictly in English.
+- Do NOT include Hindi words.
+- Do NOT mix languages.
+- Do NOT transliterate Hindi.
+
+Below are moments from a lecture where a student spoke, each followed
+by what the lecturer said next.
+
+${exchanges
+  .map((e, i) => `${i + 1}. Student: ${e.question}\n   Lecturer: ${e.response}`)
+  .join("\n\n")}
+
+STRICT RULES:
+- Keep only genuine questions about the subject (skip small talk, noise)
+- Rewrite each question clearly
+- Answer from the lecturer's response; keep it short
+- Return ONLY valid JSON:
+
+{
+  "classQuestions": [
+    {
+      "question": "",
+      "answer": ""
+    }
+  ]
+}
+`;
+
+  try {
+    const content = await llm.completeJSON({
+      stage: "classQuestions",
+      messages: [{ role: "user", content: prompt }],
+      temperature: 0.2,
+      signal,
+    });
+
+    const parsed = content ? safeJSONParse(content) : null;
+    return parsed?.classQuestions || [];
+  } catch (err) {
+    if (signal?.aborted) throw signal.reason;
+    console.error("Class question extraction failed:", err);
+    return [];
+  }
+}
+
 /* ---------------- MAIN AI FUNCTION ---------------- */
 
 export async function generateAISummary(
   transcript: string,
   mode: LectureMode,
-  marksList: number[]
+  marksList: number[],
+  onProgress?: (event: ProgressEvent) => void,
+  options: SummaryOptions = {}
 ): Promise<AISummary> {
+  const llm = getLLMProvider();
   const chunks = chunkText(transcript);
 
   let combinedSummary = "";
   let combinedNotes: AISummary["structuredNotes"] = [];
 
-  const BATCH_SIZE = 5;
+  const keys = chunks.map(sectionKey);
+  const sections: (SummarySection | null)[] = keys.map(
+    (key) => options.completedSections?.[key] ?? null
+  );
+  const errors = new Map<number, string>();
+  let summarized = sections.filter(Boolean).length;
 
   /* ---------------- STEP 1: SUMMARIZE CHUNKS ---------------- */
 
-  for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
-    const batch = chunks.slice(i, i + BATCH_SIZE);
-
-    const results = await Promise.all(
-      batch.map(async (chunk) => {
-        const prompt =
-          mode === "numerical"
-            ? `
+  const summarizeSection = async (index: number) => {
+    const chunk = chunks[index];
+    const prompt =
+      mode === "numerical"
+        ? `
 You are a numerical subject academic assistant.
 
 IMPORTANT LANGUAGE RULES:
@@ -98,7 +224,7 @@ Return ONLY valid JSON in this exact format:
 Transcript:
 ${chunk}
 `
-            : `
+        : `
 You are an academic lecture assistant.
 
 IMPORTANT LANGUAGE RULES:
@@ -126,34 +252,70 @@ Transcript:
 ${chunk}
 `;
 
-        try {
-          const completion = await groq.chat.completions.create({
-            model: "llama-3.1-8b-instant",
-            messages: [{ role: "user", content: prompt }],
-            temperature: 0.2,
-          });
-
-          const content = completion.choices[0]?.message?.content;
-          if (!content) return null;
-
-          return safeJSONParse(content);
-        } catch (err) {
-          console.error("Chunk parsing failed:", err);
-          return null;
-        }
-      })
-    );
+    try {
+      const content = await llm.completeJSON({
+        stage: "summary",
+        messages: withInstructions(prompt, options.instructions),
+        temperature: 0.2,
+        signal: options.signal,
+      });
+      const parsed = content ? safeJSONParse(content) : null;
+
+      if (typeof parsed?.summary !== "string") {
+        throw new Error("The model did not return a usable summary");
+      }
+
+      const section: SummarySection = {
+        summary: parsed.summary,
+        structuredNotes: Array.isArray(parsed.structuredNotes)
+          ? parsed.structuredNotes
+          : [],
+      };
+      sections[index] = section;
+      errors.delete(index);
+      options.onSection?.(keys[index], section);
+
+      onProgress?.({
+        type: "summary_batch",
+        batch: ++summarized,
+        total: chunks.length,
+      });
+    } catch (err: any) {
+      // Cancelled, not failed: nothing to record or retry
+      if (options.signal?.aborted) throw options.signal.reason;
+      console.error(`Summary of section ${index + 1} failed:`, err.message);
+      errors.set(index, err.message || "Summary failed");
+    }
+  };
 
-    for (const parsed of results) {
-      if (!parsed) continue;
+  // The provider's shared limiter decides how many run at once
+  for (let attempt = 0; attempt < SECTION_ATTEMPTS; attempt++) {
+    const pending = keys.map((_, i) => i).filter((i) => !sections[i]);
+    if (pending.length === 0) break;
 
-      combinedSummary += " " + parsed.summary;
-      combinedNotes.push(...parsed.structuredNotes);
+    if (attempt > 0) {
+      console.log(`🔁 Retrying ${pending.length} failed summary section(s)`);
     }
+    await Promise.all(pending.map(summarizeSection));
+  }
+
+  if (chunks.length > 0 && sections.every((section) => !section)) {
+    throw new Error(
+      `Could not summarize the lecture: ${errors.values().next().value}`
+    );
+  }
+
+  for (const section of sections) {
+    if (!section) continue;
 
-    await new Promise((res) => setTimeout(res, 1200));
+    combinedSummary += " " + section.summary;
+    combinedNotes.push(...section.structuredNotes);
   }
 
+  const failedSections: FailedSection[] = Array.from(errors.entries()).map(
+    ([index, error]) => ({ index, error })
+  );
+
   /* ---------------- STEP 2: GENERATE QUESTIONS ---------------- */
 
   const questionPrompt = `
@@ -196,20 +358,22 @@ STRICT RULES:
 
   let combinedQA: AISummary["qaPairs"] = [];
 
+  onProgress?.({ type: "qa_generation" });
+
   try {
-    const completion = await groq.chat.completions.create({
-      model: "llama-3.1-8b-instant",
-      messages: [{ role: "user", content: questionPrompt }],
+    const content = await llm.completeJSON({
+      stage: "questions",
+      messages: withInstructions(questionPrompt, options.instructions),
       temperature: 0.2,
+      signal: options.signal,
     });
 
-    const content = completion.choices[0]?.message?.content;
-
     if (content) {
       const parsed = safeJSONParse(content);
       combinedQA = parsed?.qaPairs || [];
     }
   } catch (err) {
+    if (options.signal?.aborted) throw options.signal.reason;
     console.error("Q&A generation failed:", err);
   }
 
@@ -217,10 +381,25 @@ STRICT RULES:
 
   combinedQA = combinedQA.filter((qa) => marksList.includes(qa.marks));
 
+  /* ---------------- STEP 3: QUESTIONS ASKED IN CLASS ---------------- */
+
+  let classQuestions: AISummary["classQuestions"] = [];
+
+  if (options.classExchanges?.length) {
+    onProgress?.({ type: "class_questions" });
+    classQuestions = await generateClassQuestions(
+      llm,
+      options.classExchanges,
+      options.signal
+    );
+  }
+
   return {
     transcription: transcript,
     summary: combinedSummary.trim(),
     structuredNotes: combinedNotes,
     qaPairs: combinedQA,
+    classQuestions,
+    failedSections,
   };
 }
\ No newline at end of file
@@ -0,0 +1,24 @@
+import path from "path";
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as schema from "@shared/schema";
+
+const { Pool } = pg;
+
+export function createDb(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
+
+export type Database = ReturnType<typeof createDb>;
+
+/**
+ * Apply pending SQL migrations from ./migrations (generated with
+ * `npm run db:generate`).
+ */
+export async function migrateDb(db: Database) {
+  await migrate(db, {
+    migrationsFolder: path.join(process.cwd(), "migrations"),
+  });
+}
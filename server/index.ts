@@ -2,6 +2,9 @@ import "dotenv/config";
 import express, { Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { storage, DatabaseStorage } from "./storage";
+import { checkMediaTools } from "./services/media";
+import { failInterruptedJobs } from "./pipeline";
 import { createServer } from "http";
 
 const app = express();
@@ -67,6 +70,18 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 
 /* -------------------- SERVER START -------------------- */
 (async () => {
+  // Every upload goes through ffmpeg; refuse to start without it
+  const [ffmpegVersion] = await checkMediaTools();
+  log(ffmpegVersion, "media");
+
+  if (storage instanceof DatabaseStorage) {
+    await storage.init();
+    log("database migrations applied", "db");
+  }
+
+  // Before routes, so nothing new is mistaken for an orphan
+  await failInterruptedJobs();
+
   await registerRoutes(httpServer, app);
 
   /* -------- ERROR HANDLER -------- */
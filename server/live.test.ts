@@ -0,0 +1,194 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import * as fs from "fs";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { WebSocket } from "ws";
+import { api } from "@shared/routes";
+import type { LiveServerMessage } from "@shared/schema";
+import { registerLiveTranscription } from "./live";
+import { UPLOAD_DIR } from "./services/uploads";
+
+const mocks = vi.hoisted(() => {
+  process.env.LIVE_PARTIAL_SECONDS = "0.05";
+
+  return {
+    runFfmpeg: vi.fn(),
+    probeMedia: vi.fn(),
+    transcribeAudio: vi.fn(),
+    enqueueLectureJob: vi.fn(),
+    cancelJob: vi.fn(),
+  };
+});
+
+vi.mock("./pipeline", () => ({
+  enqueueLectureJob: mocks.enqueueLectureJob,
+  cancelJob: mocks.cancelJob,
+}));
+vi.mock("./services/media", () => ({
+  runFfmpeg: mocks.runFfmpeg,
+  probeMedia: mocks.probeMedia,
+}));
+vi.mock("./services/transcription", () => ({
+  transcribeAudio: mocks.transcribeAudio,
+}));
+vi.mock("./services/uploads", async () => {
+  const os = await import("os");
+  const path = await import("path");
+
+  return {
+    UPLOAD_DIR: path.join(os.tmpdir(), `live-test-${process.pid}`),
+    MAX_UPLOAD_BYTES: 10 * 1024 * 1024,
+  };
+});
+
+// Five seconds of 16 kHz mono PCM, enough for a partial
+const PARTIAL_WAV = Buffer.alloc(44 + 16000 * 2 * 5);
+
+// ffmpeg writes its output, the last argument
+async function writeOutput(args: string[]) {
+  const output = args[args.length - 1];
+  await fs.promises.writeFile(
+    output,
+    output.endsWith(".partial.wav") ? PARTIAL_WAV : "webm"
+  );
+  return { stdout: "", stderr: "" };
+}
+
+// A promise the test settles by hand
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe("live transcription socket", () => {
+  let server: Server;
+  let url: string;
+  let partialSignal: AbortSignal | undefined;
+
+  beforeAll(async () => {
+    server = createServer();
+    registerLiveTranscription(server);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    url = `ws://localhost:${port}${api.live.path}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await fs.promises.rm(UPLOAD_DIR, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    partialSignal = undefined;
+    // The mocked job never takes the recordings earlier tests queued
+    await fs.promises.rm(UPLOAD_DIR, { recursive: true, force: true });
+
+    mocks.runFfmpeg.mockImplementation(writeOutput);
+    mocks.probeMedia.mockResolvedValue({
+      container: "webm",
+      audioCodec: "opus",
+      hasVideo: false,
+      duration: 5,
+    });
+    // A provider that never answers unless it is aborted
+    mocks.transcribeAudio.mockImplementation(
+      (_buffer: Buffer, { signal }: { signal: AbortSignal }) => {
+        partialSignal = signal;
+        return new Promise((_resolve, reject) =>
+          signal.addEventListener("abort", () => reject(signal.reason))
+        );
+      }
+    );
+    mocks.enqueueLectureJob.mockResolvedValue({ id: 7 });
+    mocks.cancelJob.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // Start a recording and wait until a partial is being transcribed
+  async function record() {
+    const socket = new WebSocket(url);
+    const messages: LiveServerMessage[] = [];
+    socket.on("message", (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => socket.once("open", resolve));
+
+    socket.send(
+      JSON.stringify({ type: "start", mode: "theory", marksList: [2, 5] })
+    );
+    await vi.waitFor(() => expect(messages).toContainEqual({ type: "ready" }));
+
+    socket.send(Buffer.from("audio"));
+    await vi.waitFor(() => expect(partialSignal).toBeDefined());
+
+    return { socket, messages };
+  }
+
+  async function uploadsLeft() {
+    const files = await fs.promises.readdir(UPLOAD_DIR);
+    return files.filter((name) => name.startsWith("live-"));
+  }
+
+  it("stops the partial in flight instead of waiting for it", async () => {
+    const { socket, messages } = await record();
+
+    socket.send(JSON.stringify({ type: "stop" }));
+
+    await vi.waitFor(() =>
+      expect(messages).toContainEqual({ type: "finalizing", jobId: 7 })
+    );
+    expect(partialSignal!.aborted).toBe(true);
+    expect(mocks.enqueueLectureJob).toHaveBeenCalledTimes(1);
+  });
+
+  it("queues nothing once the client has given up waiting", async () => {
+    const remux = deferred();
+    mocks.runFfmpeg.mockImplementation(async (args: string[]) => {
+      if (args[args.length - 1].endsWith(".final.webm")) await remux.promise;
+      return writeOutput(args);
+    });
+    const { socket } = await record();
+
+    socket.send(JSON.stringify({ type: "stop" }));
+    await vi.waitFor(() =>
+      expect(mocks.runFfmpeg).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.stringMatching(/\.final\.webm$/)])
+      )
+    );
+
+    // The client's stop timeout: it closes and uploads the file itself
+    socket.close();
+    await new Promise((resolve) => socket.once("close", resolve));
+    remux.resolve();
+
+    await vi.waitFor(async () => expect(await uploadsLeft()).toEqual([]));
+    expect(mocks.enqueueLectureJob).not.toHaveBeenCalled();
+  });
+
+  it("cancels the job if the client left while it was queued", async () => {
+    const queued = deferred<{ id: number }>();
+    mocks.enqueueLectureJob.mockReturnValue(queued.promise);
+    const { socket } = await record();
+
+    socket.send(JSON.stringify({ type: "stop" }));
+    await vi.waitFor(() => expect(mocks.enqueueLectureJob).toHaveBeenCalled());
+
+    socket.close();
+    await new Promise((resolve) => socket.once("close", resolve));
+    queued.resolve({ id: 7 });
+
+    await vi.waitFor(() => expect(mocks.cancelJob).toHaveBeenCalledWith(7));
+  });
+});
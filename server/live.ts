@@ -0,0 +1,260 @@
+import type { Server } from "http";
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { WebSocket, WebSocketServer, type RawData } from "ws";
+import { api } from "@shared/routes";
+import type {
+  LiveClientMessage,
+  LiveServerMessage,
+  TranscriptSegment,
+} from "@shared/schema";
+import { cancelJob, enqueueLectureJob } from "./pipeline";
+import { probeMedia, runFfmpeg } from "./services/media";
+import { transcribeAudio } from "./services/transcription";
+import { MAX_UPLOAD_BYTES, UPLOAD_DIR } from "./services/uploads";
+
+// How often the growing recording is transcribed for the live view
+const PARTIAL_INTERVAL_MS =
+  (Number(process.env.LIVE_PARTIAL_SECONDS) || 20) * 1000;
+
+// Don't send slivers of audio to the provider
+const MIN_PARTIAL_SECONDS = 3;
+
+// 16 kHz mono 16-bit PCM, after the 44 byte WAV header
+const WAV_BYTES_PER_SECOND = 16000 * 2;
+const WAV_HEADER_BYTES = 44;
+
+type StartMessage = Extract<LiveClientMessage, { type: "start" }>;
+
+/**
+ * One recording streamed over a socket. Audio frames are appended to a
+ * file in UPLOAD_DIR; every PARTIAL_INTERVAL_MS the part not yet seen is
+ * transcribed and sent back. On "stop" the whole file goes through the
+ * normal pipeline, so the saved note is as good as an uploaded one.
+ */
+class LiveSession {
+  private readonly filePath = path.join(UPLOAD_DIR, `live-${randomUUID()}.webm`);
+  private file: fs.WriteStream | null = null;
+  private bytes = 0;
+  private settings: StartMessage | null = null;
+  // Seconds of audio already covered by partial transcripts
+  private transcribedSeconds = 0;
+  private partial: Promise<void> | null = null;
+  // Stops the partial in flight; stop() shouldn't wait on the provider
+  private partialController: AbortController | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private finished = false;
+
+  constructor(private socket: WebSocket) {}
+
+  private send(message: LiveServerMessage) {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private fail(message: string, code = 1011) {
+    this.send({ type: "error", message });
+    this.socket.close(code, message.slice(0, 120));
+  }
+
+  handle(data: RawData, isBinary: boolean) {
+    if (this.finished) return;
+
+    if (isBinary) {
+      this.append(data as Buffer);
+      return;
+    }
+
+    let message: LiveClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return this.fail("Invalid message", 1003);
+    }
+
+    if (message.type === "start") this.start(message);
+    else if (message.type === "stop") this.stop();
+  }
+
+  private start(settings: StartMessage) {
+    if (this.settings) return;
+
+    this.settings = settings;
+    fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+    this.file = fs.createWriteStream(this.filePath);
+    this.timer = setInterval(() => this.transcribePartial(), PARTIAL_INTERVAL_MS);
+    this.send({ type: "ready" });
+  }
+
+  private append(chunk: Buffer) {
+    if (!this.file) {
+      return this.fail("Send a start message before audio", 1008);
+    }
+
+    this.bytes += chunk.length;
+    if (this.bytes > MAX_UPLOAD_BYTES) {
+      this.abort();
+      return this.fail("Recording is too long", 1009);
+    }
+
+    this.file.write(chunk);
+  }
+
+  /* ---------------- PARTIAL TRANSCRIPTS ---------------- */
+
+  private transcribePartial() {
+    // One at a time; a slow provider just makes partials less frequent
+    if (this.partial || this.finished || this.bytes === 0) return;
+
+    const controller = new AbortController();
+    this.partialController = controller;
+    this.partial = this.runPartial(controller.signal)
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          console.error("⚠️ Live partial failed:", err.message);
+        }
+      })
+      .finally(() => {
+        this.partial = null;
+        this.partialController = null;
+      });
+  }
+
+  private async runPartial(signal: AbortSignal) {
+    const wavPath = `${this.filePath}.partial.wav`;
+
+    try {
+      // The recording keeps growing; decode only what hasn't been seen
+      await runFfmpeg(
+        [
+          "-ss", String(this.transcribedSeconds),
+          "-i", this.filePath,
+          "-vn", "-ar", "16000", "-ac", "1",
+          "-y", wavPath,
+        ],
+        { timeoutMs: 60_000, signal }
+      );
+
+      const buffer = await fs.promises.readFile(wavPath);
+      const seconds = (buffer.length - WAV_HEADER_BYTES) / WAV_BYTES_PER_SECOND;
+      if (seconds < MIN_PARTIAL_SECONDS || this.finished) return;
+
+      const offset = this.transcribedSeconds;
+      const result = await transcribeAudio(buffer, { signal });
+      this.transcribedSeconds += seconds;
+
+      const shift = (t: number) => Math.round((t + offset) * 1000) / 1000;
+      const segments: TranscriptSegment[] = result.segments.length
+        ? result.segments.map((s) => ({
+            start: shift(s.start),
+            end: shift(s.end),
+            text: s.text,
+          }))
+        : result.text.trim()
+          ? [{ start: shift(0), end: shift(seconds), text: result.text.trim() }]
+          : [];
+
+      if (segments.length) this.send({ type: "partial", segments });
+    } finally {
+      await fs.promises.rm(wavPath, { force: true });
+    }
+  }
+
+  /* ---------------- END OF RECORDING ---------------- */
+
+  private async closeFile() {
+    this.finished = true;
+    if (this.timer) clearInterval(this.timer);
+    // The whole recording is transcribed next; this partial is moot
+    this.partialController?.abort();
+    await this.partial;
+
+    const file = this.file;
+    this.file = null;
+    if (file) await new Promise((resolve) => file.end(resolve));
+  }
+
+  private async stop() {
+    if (this.finished) return;
+    await this.closeFile();
+
+    if (!this.settings || this.bytes === 0) {
+      await fs.promises.rm(this.filePath, { force: true });
+      return this.fail("Nothing was recorded", 1000);
+    }
+
+    // MediaRecorder never writes a duration; a remux adds one
+    const finalPath = `${this.filePath}.final.webm`;
+
+    try {
+      await runFfmpeg(["-i", this.filePath, "-c", "copy", "-y", finalPath]);
+      const media = await probeMedia(finalPath);
+
+      // The client gives up waiting and uploads the file itself; a job
+      // here would transcribe the same recording twice
+      if (this.socket.readyState !== WebSocket.OPEN) {
+        await fs.promises.rm(finalPath, { force: true });
+        return;
+      }
+
+      const { mode, marksList, separateQuestions = false } = this.settings;
+      const job = await enqueueLectureJob({
+        fileName: `Live recording ${new Date().toLocaleString()}.webm`,
+        parts: [{ path: finalPath, media }],
+        mode: mode === "numerical" ? "numerical" : "theory",
+        marksList: Array.isArray(marksList)
+          ? marksList.map(Number).filter((m) => m > 0).slice(0, 2)
+          : [2, 5],
+        separateQuestions,
+      });
+
+      // Left while the job was being created; nobody will follow it
+      if (this.socket.readyState !== WebSocket.OPEN) {
+        await cancelJob(job.id).catch(() => {});
+        return;
+      }
+
+      this.send({ type: "finalizing", jobId: job.id });
+      this.socket.close(1000);
+    } catch (err: any) {
+      console.error(err);
+      await fs.promises.rm(finalPath, { force: true });
+      this.fail(err.message || "Could not save the recording");
+    } finally {
+      await fs.promises.rm(this.filePath, { force: true });
+    }
+  }
+
+  /**
+   * Connection dropped before "stop". The client still holds the audio
+   * and uploads it the normal way, so the server copy is thrown away.
+   */
+  async abort() {
+    if (this.finished) return;
+    await this.closeFile();
+    await fs.promises.rm(this.filePath, { force: true });
+  }
+}
+
+/* ---------------- SOCKET SERVER ---------------- */
+
+export function registerLiveTranscription(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 1024 * 1024 });
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+
+    // Other upgrades (Vite HMR on /vite-hmr) have their own listeners
+    if (pathname !== api.live.path) return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const session = new LiveSession(ws);
+
+      ws.on("message", (data, isBinary) => session.handle(data, isBinary));
+      ws.on("close", () => session.abort());
+      ws.on("error", (err) => console.error("Live socket error:", err.message));
+    });
+  });
+}
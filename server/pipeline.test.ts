@@ -0,0 +1,305 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import type { AudioChunk } from "./services/audio";
+import type { TranscriptionOptions } from "./services/transcription";
+import { chunkCacheKey } from "./services/transcript-cache";
+import {
+  cancelJob,
+  deleteJob,
+  enqueueLectureJob,
+  resumeJob,
+  transcribeChunks,
+  type LectureJobInput,
+} from "./pipeline";
+import { storage } from "./storage";
+
+const mocks = vi.hoisted(() => {
+  delete process.env.DATABASE_URL;
+  process.env.LLM_PROVIDER = "fake";
+  // Resume has to rely on the checkpoint, not the transcript cache
+  process.env.TRANSCRIPT_CACHE = "off";
+  process.env.CANCEL_UNWATCHED_SECONDS = "0";
+
+  return {
+    provider: {
+      name: "stub",
+      fingerprint: "stub",
+      transcribe: vi.fn(),
+    },
+    saveNoteAudio: vi.fn(),
+  };
+});
+
+vi.mock("./services/transcription", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./services/transcription")>()),
+  getTranscriptionProvider: () => mocks.provider,
+  transcribeAudio: (buffer: Buffer, options: TranscriptionOptions) =>
+    mocks.provider.transcribe(buffer, options),
+}));
+// Two chunks named after the upload's contents, no ffmpeg involved
+vi.mock("./services/audio", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./services/audio")>()),
+  splitAudioIntoChunks: async (inputPath: string) => {
+    const source = await fs.promises.readFile(inputPath, "utf8");
+    return [0, 1].map((i) => ({
+      start: i * 10,
+      end: (i + 1) * 10,
+      cut: i === 0 ? "silence" : "end",
+      overlap: 0,
+      buffer: Buffer.from(`${source} part ${i}`),
+    }));
+  },
+}));
+vi.mock("./services/preprocess", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./services/preprocess")>()),
+  preprocessAudio: async () => null,
+}));
+vi.mock("./services/audio-store", () => ({
+  saveNoteAudio: mocks.saveNoteAudio,
+  deleteNoteAudio: async () => {},
+  noteAudioPath: (fileName: string) => fileName,
+}));
+
+const UPLOAD_DIR = path.join(os.tmpdir(), `pipeline-test-${process.pid}`);
+
+// The stub provider answers with the chunk's own name
+function transcribed(buffer: Buffer) {
+  return { text: `Heard ${buffer}.`, segments: [] };
+}
+
+// A provider call that only ends when the job's signal aborts it
+function hang(_buffer: Buffer, { signal }: TranscriptionOptions) {
+  return new Promise((_resolve, reject) =>
+    signal!.addEventListener("abort", () => reject(signal!.reason))
+  );
+}
+
+// A promise the test settles by hand
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+function chunk(index: number, name: string): AudioChunk {
+  return {
+    start: index * 10,
+    end: (index + 1) * 10,
+    cut: "silence",
+    overlap: 0,
+    buffer: Buffer.from(name),
+  };
+}
+
+describe("transcribeChunks", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("only transcribes the chunks the checkpoint doesn't have", async () => {
+    mocks.provider.transcribe.mockImplementation(async (b: Buffer) =>
+      transcribed(b)
+    );
+    const chunks = [chunk(0, "first"), chunk(1, "second")];
+    const keys = chunks.map((c) =>
+      chunkCacheKey(c.buffer, { speakerLabels: false })
+    );
+    const onChunk = vi.fn();
+
+    const result = await transcribeChunks(chunks, undefined, {}, {
+      completed: { [keys[0]]: { text: "Saved earlier.", segments: [] } },
+      onChunk,
+    });
+
+    expect(mocks.provider.transcribe).toHaveBeenCalledTimes(1);
+    expect(onChunk).toHaveBeenCalledWith(keys[1], transcribed(chunks[1].buffer));
+    expect(result.text).toBe("Saved earlier.\n\nHeard second.");
+  });
+
+  it("retries a chunk that failed once", async () => {
+    mocks.provider.transcribe
+      .mockRejectedValueOnce(new Error("Provider busy"))
+      .mockImplementation(async (b: Buffer) => transcribed(b));
+
+    const result = await transcribeChunks([chunk(0, "only")]);
+
+    expect(mocks.provider.transcribe).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ text: "Heard only.", failed: [] });
+  });
+
+  it("leaves out a chunk that fails every attempt", async () => {
+    mocks.provider.transcribe.mockImplementation(async (b: Buffer) => {
+      if (b.toString() === "second") throw new Error("Provider down");
+      return transcribed(b);
+    });
+
+    const result = await transcribeChunks([chunk(0, "first"), chunk(1, "second")]);
+
+    expect(result.text).toBe("Heard first.");
+    expect(result.failed).toEqual([
+      { stage: "transcription", index: 1, start: 10, end: 20, error: "Provider down" },
+    ]);
+  });
+});
+
+describe("lecture jobs", () => {
+  let uploads = 0;
+
+  beforeAll(async () => {
+    await fs.promises.mkdir(UPLOAD_DIR, { recursive: true });
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(UPLOAD_DIR, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mocks.provider.transcribe.mockImplementation(async (b: Buffer) =>
+      transcribed(b)
+    );
+    mocks.saveNoteAudio.mockResolvedValue("lecture.m4a");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  // A fresh upload each time, so no two jobs share chunk audio
+  async function upload(): Promise<LectureJobInput> {
+    const filePath = path.join(UPLOAD_DIR, `upload-${++uploads}`);
+    await fs.promises.writeFile(filePath, `upload ${uploads}`);
+
+    return {
+      fileName: "lecture.mp3",
+      parts: [
+        {
+          path: filePath,
+          media: {
+            container: "mp3",
+            audioCodec: "mp3",
+            duration: 20,
+            hasVideo: false,
+            audioFormat: "mp3",
+            needsExtraction: false,
+          },
+        },
+      ],
+      mode: "theory",
+      marksList: [2],
+      separateQuestions: false,
+    };
+  }
+
+  async function untilStatus(jobId: number, status: string) {
+    await vi.waitFor(async () =>
+      expect((await storage.getJob(jobId))?.status).toBe(status)
+    );
+  }
+
+  async function untilRemoved(filePath: string) {
+    await vi.waitFor(() => expect(fs.existsSync(filePath)).toBe(false));
+  }
+
+  it("clears the checkpoint once the notes are saved", async () => {
+    const input = await upload();
+    const job = await enqueueLectureJob(input);
+
+    await untilStatus(job.id, "completed");
+
+    await vi.waitFor(async () =>
+      expect((await storage.getJob(job.id))?.checkpoint).toBeNull()
+    );
+    const { noteId } = (await storage.getJob(job.id))!;
+    expect((await storage.getNote(noteId!))?.transcription).toBe(
+      "Heard upload 1 part 0.\n\nHeard upload 1 part 1."
+    );
+    await untilRemoved(input.parts[0].path);
+  });
+
+  it("resumes a failed job without transcribing its chunks again", async () => {
+    vi.spyOn(storage, "createNote").mockRejectedValueOnce(
+      new Error("Database unavailable")
+    );
+    const input = await upload();
+    const job = await enqueueLectureJob(input);
+
+    await untilStatus(job.id, "failed");
+    const failed = await storage.getJob(job.id);
+    expect(Object.keys(failed!.checkpoint!.transcripts)).toHaveLength(2);
+    expect(fs.existsSync(input.parts[0].path)).toBe(true);
+
+    // Refused until the failed run has let go of the job
+    await vi.waitFor(() => resumeJob(job.id));
+    await untilStatus(job.id, "completed");
+
+    expect(mocks.provider.transcribe).toHaveBeenCalledTimes(2);
+    expect((await storage.getJob(job.id))?.noteId).not.toBeNull();
+  });
+
+  it("removes the uploads a failed job kept when it is deleted", async () => {
+    vi.spyOn(storage, "createNote").mockRejectedValueOnce(
+      new Error("Database unavailable")
+    );
+    const input = await upload();
+    const job = await enqueueLectureJob(input);
+    await untilStatus(job.id, "failed");
+
+    expect(await deleteJob(job.id)).toBe(true);
+
+    expect(fs.existsSync(input.parts[0].path)).toBe(false);
+    expect(await storage.getJob(job.id)).toBeUndefined();
+  });
+
+  it("stops a job cancelled while it is transcribing", async () => {
+    mocks.provider.transcribe.mockImplementation(hang);
+    const input = await upload();
+    const job = await enqueueLectureJob(input);
+    await vi.waitFor(() => expect(mocks.provider.transcribe).toHaveBeenCalled());
+
+    await cancelJob(job.id);
+
+    await untilRemoved(input.parts[0].path);
+    const [[, { signal }]] = mocks.provider.transcribe.mock.calls;
+    expect(signal.aborted).toBe(true);
+    expect((await storage.getJob(job.id))?.status).toBe("cancelled");
+    expect(mocks.saveNoteAudio).not.toHaveBeenCalled();
+  });
+
+  it("refuses to cancel a job that is saving, and finishes it", async () => {
+    const saving = deferred<string>();
+    mocks.saveNoteAudio.mockReturnValue(saving.promise);
+    const job = await enqueueLectureJob(await upload());
+    await vi.waitFor(() => expect(mocks.saveNoteAudio).toHaveBeenCalled());
+
+    await expect(cancelJob(job.id)).rejects.toMatchObject({ status: 409 });
+    saving.resolve("lecture.m4a");
+
+    await untilStatus(job.id, "completed");
+  });
+
+  it("stops a running job when it is deleted", async () => {
+    mocks.provider.transcribe.mockImplementation(hang);
+    const input = await upload();
+    const job = await enqueueLectureJob(input);
+    await vi.waitFor(() => expect(mocks.provider.transcribe).toHaveBeenCalled());
+
+    expect(await deleteJob(job.id)).toBe(true);
+
+    const [[, { signal }]] = mocks.provider.transcribe.mock.calls;
+    expect(signal.aborted).toBe(true);
+    await untilRemoved(input.parts[0].path);
+    expect(await storage.getJob(job.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,1137 @@
+import * as fs from "fs";
+import pLimit from "p-limit";
+import type {
+  ChunkBoundary,
+  FailedChunk,
+  JobCheckpoint,
+  JobStage,
+  ProgressEvent,
+  SpeakerRole,
+  TranscriptSegment,
+  UpdateJob,
+} from "@shared/schema";
+import {
+  mergeChunkTranscripts,
+  transcribeAudio,
+  type TranscriptionOptions,
+  type TranscriptionResult,
+} from "./services/transcription";
+import {
+  segmentationOptionsFromEnv,
+  splitAudioIntoChunks,
+  type AudioChunk,
+} from "./services/audio";
+import {
+  deleteNoteAudio,
+  noteAudioPath,
+  saveNoteAudio,
+} from "./services/audio-store";
+import {
+  concatAudioTracks,
+  extractAudioTrack,
+  type MediaInfo,
+} from "./services/media";
+import {
+  mapSegmentsToOriginal,
+  preprocessAudio,
+  preprocessOptionsFromEnv,
+  toOriginalTime,
+} from "./services/preprocess";
+import {
+  chunkCacheKey,
+  hashFile,
+  readCachedTranscript,
+  transcriptCacheKey,
+  writeCachedTranscript,
+} from "./services/transcript-cache";
+import {
+  generateAISummary,
+  type ClassExchange,
+  type FailedSection,
+  type LectureMode,
+  type SummarySection,
+} from "./ai";
+import {
+  hasJobSubscribers,
+  isJobFinished,
+  publishJobProgress,
+  toJobProgress,
+} from "./progress";
+import { storage } from "./storage";
+
+export interface RegenerateInput {
+  mode: LectureMode;
+  marksList: number[];
+  instructions?: string;
+}
+
+// A transcript that already exists (captions, typed notes)
+export interface TranscriptJobInput {
+  fileName: string;
+  transcript: TranscriptionResult;
+  mode: LectureMode;
+  marksList: number[];
+}
+
+// An uploaded file on disk and what probeMedia found in it
+export interface MediaPart {
+  path: string;
+  media: MediaInfo;
+}
+
+export interface LectureJobInput {
+  fileName: string;
+  // Recordings of one lecture in playing order, joined before
+  // transcription. The job owns the files and removes them when done
+  parts: MediaPart[];
+  mode: LectureMode;
+  marksList: number[];
+  // Diarize and pull student questions into their own section
+  separateQuestions: boolean;
+  // Extend this note: its recording goes first and the note is rebuilt
+  // in place instead of a new one being created
+  noteId?: number;
+}
+
+export type ProgressCallback = (event: ProgressEvent) => void;
+
+// Jobs run in the background; cap how many hit the external APIs at once
+const JOB_CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 2;
+const queue = pLimit(JOB_CONCURRENCY);
+
+// Slice of the overall progress bar each stage covers
+const STAGE_RANGE: Record<JobStage, [number, number]> = {
+  queued: [0, 0],
+  preparing: [0, 5],
+  splitting: [5, 10],
+  transcribing: [10, 60],
+  summarizing: [60, 95],
+  saving: [95, 100],
+  done: [100, 100],
+};
+
+const STAGE_MESSAGE: Record<JobStage, string> = {
+  queued: "Waiting in queue",
+  preparing: "Cleaning up audio",
+  splitting: "Splitting audio",
+  transcribing: "Transcribing audio",
+  summarizing: "Summarizing lecture",
+  saving: "Saving notes",
+  done: "Done",
+};
+
+function stagePercent(stage: JobStage, fraction = 0): number {
+  const [start, end] = STAGE_RANGE[stage];
+  return Math.round(start + (end - start) * Math.min(1, fraction));
+}
+
+/**
+ * Map a pipeline event to the stage it belongs to, how far through
+ * that stage it is, and a human readable label.
+ */
+function describeEvent(
+  event: ProgressEvent
+): { stage: JobStage; fraction: number; message: string } {
+  switch (event.type) {
+    case "parts_joined":
+      return {
+        stage: "preparing",
+        fraction: 0.5,
+        message: `Joined ${event.parts} recordings`,
+      };
+    case "audio_prepared":
+      return {
+        stage: "preparing",
+        fraction: 1,
+        message: event.removedSeconds
+          ? `Cleaned up audio, skipped ${event.removedSeconds}s of silence`
+          : "Cleaned up audio",
+      };
+    case "audio_split":
+      return {
+        stage: "splitting",
+        fraction: 1,
+        message: `Split audio into ${event.chunks} chunk${event.chunks === 1 ? "" : "s"}`,
+      };
+    case "transcript_cached":
+      return {
+        stage: "transcribing",
+        fraction: 1,
+        message: "Reused the transcript from an earlier upload",
+      };
+    case "chunk_transcribed":
+      return {
+        stage: "transcribing",
+        fraction: event.chunk / event.total,
+        message: `Transcribed chunk ${event.chunk} of ${event.total}`,
+      };
+    case "summary_batch":
+      // Leave the tail of the stage for Q&A generation
+      return {
+        stage: "summarizing",
+        fraction: (event.batch / event.total) * 0.8,
+        message: `Summarized section ${event.batch} of ${event.total}`,
+      };
+    case "qa_generation":
+      return {
+        stage: "summarizing",
+        fraction: 0.8,
+        message: "Generating exam questions",
+      };
+    case "class_questions":
+      return {
+        stage: "summarizing",
+        fraction: 0.9,
+        message: "Collecting questions asked in class",
+      };
+    case "saved":
+      return { stage: "saving", fraction: 1, message: "Saved notes" };
+  }
+}
+
+class JobDeletedError extends Error {
+  constructor(jobId: number) {
+    super(`Job ${jobId} was deleted`);
+    this.name = "JobDeletedError";
+  }
+}
+
+class JobCancelledError extends Error {
+  constructor(jobId: number) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = "JobCancelledError";
+  }
+}
+
+/**
+ * Raised when a job can't be resumed or cancelled in its current state.
+ * Carries an HTTP status so routes can pass it straight to the client.
+ */
+export class JobStateError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "JobStateError";
+  }
+}
+
+// Stored on the job so a failed one can be started again
+type StoredJobInput =
+  | ({ kind: "lecture" } & LectureJobInput)
+  | ({ kind: "transcript" } & TranscriptJobInput)
+  | ({ kind: "regenerate"; noteId: number } & RegenerateInput);
+
+/* ---------------- SPEAKERS ---------------- */
+
+/**
+ * Diarization labels are only consistent within one chunk ("A" in one
+ * chunk may be "B" in the next), so map them to roles per chunk:
+ * whoever talks the most is taken to be the lecturer, everyone else
+ * is a student.
+ */
+function assignSpeakerRoles(segments: TranscriptSegment[]): TranscriptSegment[] {
+  const talkTime = new Map<string, number>();
+
+  for (const s of segments) {
+    if (!s.speaker) continue;
+    talkTime.set(s.speaker, (talkTime.get(s.speaker) ?? 0) + s.end - s.start);
+  }
+
+  if (talkTime.size === 0) return segments;
+
+  const [lecturer] = Array.from(talkTime.entries()).sort((a, b) => b[1] - a[1])[0];
+
+  return segments.map((s) => {
+    if (!s.speaker) return s;
+    const role: SpeakerRole = s.speaker === lecturer ? "lecturer" : "student";
+    return { ...s, speaker: role };
+  });
+}
+
+/**
+ * Collapse consecutive student segments into turns and pair each with
+ * the lecturer's reply that follows it.
+ */
+function collectClassExchanges(segments: TranscriptSegment[]): ClassExchange[] {
+  const exchanges: ClassExchange[] = [];
+  let current: ClassExchange | null = null;
+
+  for (const s of segments) {
+    if (s.speaker === "student") {
+      if (current && !current.response) {
+        current.question += ` ${s.text}`;
+      } else {
+        current = { question: s.text, response: "" };
+        exchanges.push(current);
+      }
+    } else if (current && s.speaker === "lecturer" && current.response.length < 500) {
+      current.response = `${current.response} ${s.text}`.trim();
+    }
+  }
+
+  return exchanges;
+}
+
+/* ---------------- SAFE TRANSCRIBE (FIXED) ---------------- */
+
+// Passes over the chunks; later passes only retry the failed ones
+const CHUNK_ATTEMPTS = Number(process.env.CHUNK_ATTEMPTS) || 2;
+
+export interface ChunkCheckpoint {
+  // Chunks transcribed by an earlier attempt, keyed by chunkCacheKey
+  completed: JobCheckpoint["transcripts"];
+  onChunk: (key: string, result: TranscriptionResult) => void;
+}
+
+export interface ChunkedTranscript extends TranscriptionResult {
+  // Chunks left out of the transcript, times relative to the input
+  failed: FailedChunk[];
+}
+
+export async function transcribeChunks(
+  chunks: AudioChunk[],
+  onProgress?: ProgressCallback,
+  options: TranscriptionOptions = {},
+  checkpoint?: ChunkCheckpoint
+): Promise<ChunkedTranscript> {
+  const keys = chunks.map((chunk) =>
+    chunkCacheKey(chunk.buffer, {
+      speakerLabels: options.speakerLabels ?? false,
+    })
+  );
+  const results: (TranscriptionResult | null)[] = keys.map(
+    (key) => checkpoint?.completed[key] ?? null
+  );
+  const errors = new Map<number, string>();
+  let done = results.filter(Boolean).length;
+
+  const transcribeChunk = async (index: number) => {
+    const chunk = chunks[index];
+
+    try {
+      // Identical chunk audio (e.g. re-split differently) is reused too
+      const cached = await readCachedTranscript(keys[index]);
+      let result: TranscriptionResult;
+
+      if (cached) {
+        console.log(`♻️ Cached transcript for chunk ${index + 1}`);
+        result = { text: cached.transcription, segments: cached.segments };
+      } else {
+        console.log(`🎤 Transcribing chunk ${index + 1}`);
+        result = await transcribeAudio(chunk.buffer, options);
+        await writeCachedTranscript(keys[index], result);
+      }
+
+      results[index] = result;
+      errors.delete(index);
+      checkpoint?.onChunk(keys[index], result);
+
+      onProgress?.({
+        type: "chunk_transcribed",
+        chunk: ++done,
+        total: chunks.length,
+      });
+    } catch (err: any) {
+      // Cancelled, not failed: nothing to record or retry
+      if (options.signal?.aborted) throw options.signal.reason;
+      console.error(`Chunk ${index + 1} failed:`, err.message);
+      errors.set(index, err.message || "Transcription failed");
+    }
+  };
+
+  // The provider's shared limiter decides how many run at once
+  for (let attempt = 0; attempt < CHUNK_ATTEMPTS; attempt++) {
+    const pending = keys.map((_, i) => i).filter((i) => !results[i]);
+    if (pending.length === 0) break;
+
+    if (attempt > 0) {
+      console.log(`🔁 Retrying ${pending.length} failed chunk(s)`);
+    }
+    await Promise.all(pending.map(transcribeChunk));
+  }
+
+  if (chunks.length > 0 && results.every((result) => !result)) {
+    throw new Error(
+      `Could not transcribe the recording: ${errors.values().next().value}`
+    );
+  }
+
+  const parts = chunks.flatMap((chunk, index) => {
+    const result = results[index];
+    if (!result) return [];
+
+    // Shift chunk-relative timings onto the full recording
+    return [
+      {
+        chunk,
+        result: {
+          text: result.text,
+          segments: assignSpeakerRoles(result.segments).map((s) => ({
+            ...s,
+            start: s.start + chunk.start,
+            end: s.end + chunk.start,
+          })),
+        },
+      },
+    ];
+  });
+
+  const failed: FailedChunk[] = Array.from(errors.entries()).map(
+    ([index, error]) => ({
+      stage: "transcription",
+      index,
+      start: chunks[index].start,
+      end: chunks[index].end,
+      error,
+    })
+  );
+
+  return { ...mergeChunkTranscripts(parts), failed };
+}
+
+/* ---------------- CANCELLATION ---------------- */
+
+// One controller per queued or running job; aborting it stops ffmpeg,
+// whisper and provider requests and skips whatever hasn't started
+const controllers = new Map<number, AbortController>();
+
+// How long a job may run with nobody following its progress (tab
+// closed) before it is cancelled. 0 lets it finish regardless
+const CANCEL_UNWATCHED_MS =
+  Number(process.env.CANCEL_UNWATCHED_SECONDS ?? 60) * 1000;
+const unwatchedTimers = new Map<number, NodeJS.Timeout>();
+
+function trackJob(jobId: number): AbortSignal {
+  const controller = new AbortController();
+  controllers.set(jobId, controller);
+  return controller.signal;
+}
+
+// A resumed job may already have a new controller; leave that one alone
+function untrackJob(jobId: number, signal: AbortSignal) {
+  if (controllers.get(jobId)?.signal === signal) controllers.delete(jobId);
+}
+
+/* ---------------- JOB RUNNER ---------------- */
+
+/**
+ * Persist a job update and push it to SSE listeners. Updates never
+ * overwrite a final status: if the job was deleted or cancelled in the
+ * meantime this throws, so the runner stops before the next expensive
+ * step.
+ */
+async function report(jobId: number, update: UpdateJob, event?: ProgressEvent) {
+  const job = await storage.updateUnfinishedJob(jobId, update);
+
+  if (!job) {
+    if (await storage.getJob(jobId)) throw new JobCancelledError(jobId);
+    throw new JobDeletedError(jobId);
+  }
+
+  publishJobProgress(toJobProgress(job, event));
+}
+
+function advance(jobId: number, stage: JobStage, extra: UpdateJob = {}) {
+  return report(jobId, {
+    stage,
+    progress: stagePercent(stage),
+    message: STAGE_MESSAGE[stage],
+    ...extra,
+  });
+}
+
+/**
+ * Progress callbacks fire from inside the pipeline steps, so writes are
+ * chained to keep them ordered and a deleted job surfaces at the next
+ * stage boundary instead of as an unhandled rejection.
+ */
+function progressReporter(jobId: number) {
+  let pending = Promise.resolve();
+
+  const onProgress: ProgressCallback = (event) => {
+    const { stage, fraction, message } = describeEvent(event);
+
+    pending = pending
+      .then(() =>
+        report(
+          jobId,
+          { stage, progress: stagePercent(stage, fraction), message },
+          event
+        )
+      )
+      .catch(() => {});
+  };
+
+  return { onProgress, flush: () => pending };
+}
+
+/**
+ * Load what an earlier run of the job already finished and save
+ * additions as they come. Writes are chained like progress updates;
+ * a lost checkpoint only costs redoing a chunk, so failures are logged.
+ */
+async function checkpointer(jobId: number) {
+  const job = await storage.getJob(jobId);
+  const checkpoint: JobCheckpoint = job?.checkpoint ?? {
+    transcripts: {},
+    summaries: {},
+  };
+  let pending = Promise.resolve();
+
+  const save = () => {
+    pending = pending
+      .then(async () => {
+        await storage.updateJob(jobId, { checkpoint });
+      })
+      .catch((err) => console.error("⚠️ Checkpoint save failed:", err.message));
+  };
+
+  return {
+    checkpoint,
+    chunks: {
+      completed: checkpoint.transcripts,
+      onChunk: (key: string, result: TranscriptionResult) => {
+        checkpoint.transcripts[key] = result;
+        save();
+      },
+    } satisfies ChunkCheckpoint,
+    sections: {
+      completedSections: checkpoint.summaries,
+      onSection: (key: string, section: SummarySection) => {
+        checkpoint.summaries[key] = section;
+        save();
+      },
+    },
+    flush: () => pending,
+  };
+}
+
+type Checkpointer = Awaited<ReturnType<typeof checkpointer>>;
+
+function summaryFailures(failedSections: FailedSection[]): FailedChunk[] {
+  return failedSections.map(({ index, error }) => ({
+    stage: "summary",
+    index,
+    error,
+  }));
+}
+
+/**
+ * What every runner shares around its work: load the checkpoint, stop
+ * quietly when the job was deleted or cancelled, otherwise mark it
+ * failed with the checkpoint saved so it can be resumed. `cleanup` runs
+ * either way, before the controller is released.
+ */
+async function runJob(
+  jobId: number,
+  signal: AbortSignal,
+  failureMessage: string,
+  work: (saved: Checkpointer) => Promise<void>,
+  cleanup?: (failed: boolean) => Promise<void>
+) {
+  let saved: Checkpointer | undefined;
+  let failed = false;
+
+  try {
+    signal.throwIfAborted();
+    saved = await checkpointer(jobId);
+    await work(saved);
+
+    // A completed job is never resumed, so its partial results can go
+    await saved.flush();
+    await storage
+      .updateJob(jobId, { checkpoint: null })
+      .catch((err) => console.error("⚠️ Checkpoint clear failed:", err.message));
+  } catch (err: any) {
+    if (err instanceof JobDeletedError) {
+      console.log(`🗑️ ${err.message}, stopping`);
+      return;
+    }
+    // cancelJob already marked it
+    if (err instanceof JobCancelledError || signal.aborted) {
+      console.log(`🛑 Job ${jobId} was cancelled, stopping`);
+      return;
+    }
+
+    console.error(err);
+    failed = true;
+    await saved?.flush();
+    await report(jobId, {
+      status: "failed",
+      error: err.message || failureMessage,
+    }).catch(() => {});
+  } finally {
+    await cleanup?.(failed);
+    untrackJob(jobId, signal);
+  }
+}
+
+async function runLectureJob(
+  jobId: number,
+  input: LectureJobInput,
+  signal: AbortSignal
+) {
+  const { onProgress, flush } = progressReporter(jobId);
+  const [first] = input.parts;
+  let audioPath = first.path;
+  let audioFormat = first.media.audioFormat;
+  let preparedPath: string | null = null;
+
+  await runJob(
+    jobId,
+    signal,
+    "Processing failed",
+    async (saved) => {
+      await advance(jobId, "preparing", { status: "processing" });
+
+      // Appending: the note's stored recording is read, never removed here
+      const existing = input.noteId
+        ? await storage.getNote(input.noteId)
+        : undefined;
+      if (input.noteId && !existing?.audioFile) {
+        throw new Error("The note has no recording to add to");
+      }
+
+      const sourcePaths = [
+        ...(existing?.audioFile ? [noteAudioPath(existing.audioFile)] : []),
+        ...input.parts.map((part) => part.path),
+      ];
+
+      const preprocessOptions = preprocessOptionsFromEnv();
+      const segmentationOptions = segmentationOptionsFromEnv();
+
+      // Same recordings, same settings: skip straight to the summary
+      const hashes = await Promise.all(sourcePaths.map((p) => hashFile(p)));
+      const fileKey = transcriptCacheKey("file", hashes.join("+"), {
+        speakerLabels: input.separateQuestions,
+        preprocess: preprocessOptions,
+        segmentation: segmentationOptions,
+      });
+      const cached = await readCachedTranscript(fileKey);
+
+      if (sourcePaths.length > 1) {
+        // One continuous recording, so timestamps run across the parts
+        audioPath = `${first.path}.joined.m4a`;
+        const joined = await concatAudioTracks(sourcePaths, audioPath, signal);
+        audioFormat = joined.audioFormat;
+        console.log(`🧩 Joined ${sourcePaths.length} recordings`);
+        onProgress({ type: "parts_joined", parts: sourcePaths.length });
+      } else if (first.media.needsExtraction) {
+        // Pull the sound out of video uploads once, then work on that
+        audioPath = await extractAudioTrack(first.path, signal);
+        console.log(`🎬 Extracted audio track from ${first.media.container}`);
+      }
+
+      let transcription: string;
+      let segments: TranscriptSegment[];
+      let boundaries: ChunkBoundary[];
+      let failedChunks: FailedChunk[] = [];
+
+      if (cached) {
+        console.log("♻️ Reusing cached transcript");
+        transcription = cached.transcription;
+        segments = cached.segments;
+        boundaries = cached.chunks;
+        onProgress({ type: "transcript_cached" });
+      } else {
+        // Filtered copy for transcription only; playback keeps the original
+        const prepared = await preprocessAudio(
+          audioPath,
+          preprocessOptions,
+          signal
+        );
+        preparedPath = prepared?.path ?? null;
+        const timeMap = prepared?.timeMap ?? [];
+        onProgress({
+          type: "audio_prepared",
+          removedSeconds: prepared?.removedSeconds ?? 0,
+        });
+
+        await flush();
+        await advance(jobId, "splitting");
+
+        const chunks = await splitAudioIntoChunks(
+          preparedPath ?? audioPath,
+          segmentationOptions,
+          signal
+        );
+        console.log(`🔪 Total Chunks Created: ${chunks.length}`);
+        boundaries = chunks.map(({ start, end, cut, overlap }) => ({
+          start: toOriginalTime(timeMap, start),
+          end: toOriginalTime(timeMap, end),
+          cut,
+          overlap,
+        }));
+        onProgress({ type: "audio_split", chunks: chunks.length });
+
+        await flush();
+        await advance(jobId, "transcribing");
+
+        const transcript = await transcribeChunks(
+          chunks,
+          onProgress,
+          { speakerLabels: input.separateQuestions, signal },
+          saved.chunks
+        );
+        transcription = transcript.text;
+        // Point timestamps back into the recording the user will play
+        segments = mapSegmentsToOriginal(transcript.segments, timeMap);
+        failedChunks = transcript.failed.map((f) => ({
+          ...f,
+          start: toOriginalTime(timeMap, f.start ?? 0),
+          end: toOriginalTime(timeMap, f.end ?? 0),
+        }));
+
+        if (!transcription) {
+          throw new Error("No speech detected");
+        }
+
+        // A transcript with holes is not worth reusing for other uploads
+        if (failedChunks.length === 0) {
+          await writeCachedTranscript(
+            fileKey,
+            { text: transcription, segments },
+            boundaries
+          );
+        }
+      }
+
+      await flush();
+      await advance(jobId, "summarizing");
+
+      const aiResult = await generateAISummary(
+        transcription,
+        input.mode,
+        input.marksList,
+        onProgress,
+        {
+          ...saved.sections,
+          classExchanges: input.separateQuestions
+            ? collectClassExchanges(segments)
+            : undefined,
+          signal,
+        }
+      );
+      failedChunks.push(...summaryFailures(aiResult.failedSections));
+
+      await flush();
+      // Once in the saving stage the job can no longer be cancelled
+      await advance(jobId, "saving");
+
+      signal.throwIfAborted();
+      const audioFile = await saveNoteAudio(audioPath, audioFormat);
+      const generated = {
+        transcription,
+        summary: aiResult.summary,
+        structuredNotes: aiResult.structuredNotes,
+        qaPairs: aiResult.qaPairs,
+        segments,
+        classQuestions: aiResult.classQuestions,
+        chunks: boundaries,
+        audioFile,
+        failedChunks,
+        mode: input.mode,
+        marksList: input.marksList,
+        instructions: null,
+      };
+
+      let noteId: number;
+
+      if (existing) {
+        // Keep the notes from before the new part was added
+        await storage.createNoteVersion({
+          noteId: existing.id,
+          mode: existing.mode,
+          marksList: existing.marksList,
+          instructions: existing.instructions,
+          summary: existing.summary,
+          structuredNotes: existing.structuredNotes,
+          qaPairs: existing.qaPairs,
+          classQuestions: existing.classQuestions,
+        });
+
+        const updated = await storage.updateNote(existing.id, generated);
+        if (!updated) {
+          await deleteNoteAudio(audioFile);
+          throw new Error("Note no longer exists");
+        }
+
+        // The joined recording replaces the old one
+        await deleteNoteAudio(existing.audioFile!);
+        noteId = existing.id;
+      } else {
+        const note = await storage.createNote({
+          fileName: input.fileName,
+          ...generated,
+        });
+        noteId = note.id;
+      }
+      onProgress({ type: "saved", noteId });
+
+      await flush();
+      await advance(jobId, "done", {
+        status: "completed",
+        result: { ...aiResult, segments, chunks: boundaries, failedChunks },
+        noteId,
+      });
+    },
+    async (failed) => {
+      // Uploads stay on disk after a failure so the job can be resumed;
+      // on success they were already moved into the audio store
+      if (!failed) {
+        for (const part of input.parts) {
+          await fs.promises.rm(part.path, { force: true });
+        }
+      }
+      // Joined or extracted audio; a single plain upload is the source itself
+      if (audioPath !== first.path) {
+        await fs.promises.rm(audioPath, { force: true });
+      }
+      if (preparedPath) await fs.promises.rm(preparedPath, { force: true });
+    }
+  );
+}
+
+/**
+ * Create a job record and schedule it on the background queue.
+ * Resolves as soon as the job is stored, not when it finishes.
+ */
+export async function enqueueLectureJob(input: LectureJobInput) {
+  const job = await storage.createJob({
+    fileName: input.fileName,
+    noteId: input.noteId,
+    message: STAGE_MESSAGE.queued,
+    input: { kind: "lecture", ...input } satisfies StoredJobInput,
+  });
+
+  const signal = trackJob(job.id);
+  queue(() => runLectureJob(job.id, input, signal));
+
+  return job;
+}
+
+/**
+ * Summarize a saved note's transcript again with new settings. The
+ * current generation is archived as a version before it is replaced.
+ */
+async function runRegenerateJob(
+  jobId: number,
+  noteId: number,
+  input: RegenerateInput,
+  signal: AbortSignal
+) {
+  const { onProgress, flush } = progressReporter(jobId);
+
+  await runJob(jobId, signal, "Regeneration failed", async (saved) => {
+      await advance(jobId, "summarizing", { status: "processing" });
+
+      const note = await storage.getNote(noteId);
+      if (!note) throw new Error("Note no longer exists");
+
+      // Diarized notes keep their "questions asked in class" section
+      const classExchanges = collectClassExchanges(note.segments);
+
+      const aiResult = await generateAISummary(
+        note.transcription,
+        input.mode,
+        input.marksList,
+        onProgress,
+        {
+          ...saved.sections,
+          classExchanges: classExchanges.length ? classExchanges : undefined,
+          instructions: input.instructions,
+          signal,
+        }
+      );
+
+      // Transcription gaps stay; summary gaps are replaced by this run's
+      const failedChunks = [
+        ...note.failedChunks.filter((f) => f.stage === "transcription"),
+        ...summaryFailures(aiResult.failedSections),
+      ];
+
+      await flush();
+      // Once in the saving stage the job can no longer be cancelled
+      await advance(jobId, "saving");
+
+      signal.throwIfAborted();
+      await storage.createNoteVersion({
+        noteId,
+        mode: note.mode,
+        marksList: note.marksList,
+        instructions: note.instructions,
+        summary: note.summary,
+        structuredNotes: note.structuredNotes,
+        qaPairs: note.qaPairs,
+        classQuestions: note.classQuestions,
+      });
+
+      const updated = await storage.updateNote(noteId, {
+        summary: aiResult.summary,
+        structuredNotes: aiResult.structuredNotes,
+        qaPairs: aiResult.qaPairs,
+        classQuestions: aiResult.classQuestions,
+        failedChunks,
+        mode: input.mode,
+        marksList: input.marksList,
+        instructions: input.instructions || null,
+      });
+      if (!updated) throw new Error("Note no longer exists");
+
+      onProgress({ type: "saved", noteId });
+
+      await flush();
+      await advance(jobId, "done", {
+        status: "completed",
+        result: {
+          ...aiResult,
+          segments: updated.segments,
+          chunks: updated.chunks,
+          failedChunks,
+        },
+        noteId,
+      });
+  });
+}
+
+export async function enqueueRegenerateJob(
+  note: { id: number; fileName: string },
+  input: RegenerateInput
+) {
+  const job = await storage.createJob({
+    fileName: note.fileName,
+    noteId: note.id,
+    message: STAGE_MESSAGE.queued,
+    input: {
+      kind: "regenerate",
+      noteId: note.id,
+      ...input,
+    } satisfies StoredJobInput,
+  });
+
+  const signal = trackJob(job.id);
+  queue(() => runRegenerateJob(job.id, note.id, input, signal));
+
+  return job;
+}
+
+/**
+ * Summarize an uploaded transcript. There is no audio, so splitting and
+ * transcription are skipped and the note has no recording.
+ */
+async function runTranscriptJob(
+  jobId: number,
+  input: TranscriptJobInput,
+  signal: AbortSignal
+) {
+  const { onProgress, flush } = progressReporter(jobId);
+
+  await runJob(jobId, signal, "Processing failed", async (saved) => {
+      await advance(jobId, "summarizing", { status: "processing" });
+
+      const { text: transcription, segments } = input.transcript;
+
+      const aiResult = await generateAISummary(
+        transcription,
+        input.mode,
+        input.marksList,
+        onProgress,
+        { ...saved.sections, signal }
+      );
+      const failedChunks = summaryFailures(aiResult.failedSections);
+
+      await flush();
+      // Once in the saving stage the job can no longer be cancelled
+      await advance(jobId, "saving");
+
+      signal.throwIfAborted();
+      const note = await storage.createNote({
+        fileName: input.fileName,
+        transcription,
+        summary: aiResult.summary,
+        structuredNotes: aiResult.structuredNotes,
+        qaPairs: aiResult.qaPairs,
+        segments,
+        classQuestions: [],
+        chunks: [],
+        audioFile: null,
+        failedChunks,
+        mode: input.mode,
+        marksList: input.marksList,
+        instructions: null,
+      });
+      onProgress({ type: "saved", noteId: note.id });
+
+      await flush();
+      await advance(jobId, "done", {
+        status: "completed",
+        result: { ...aiResult, segments, chunks: [], failedChunks },
+        noteId: note.id,
+      });
+  });
+}
+
+export async function enqueueTranscriptJob(input: TranscriptJobInput) {
+  const job = await storage.createJob({
+    fileName: input.fileName,
+    message: STAGE_MESSAGE.queued,
+    input: { kind: "transcript", ...input } satisfies StoredJobInput,
+  });
+
+  const signal = trackJob(job.id);
+  queue(() => runTranscriptJob(job.id, input, signal));
+
+  return job;
+}
+
+/* ---------------- RESUME ---------------- */
+
+/**
+ * Jobs still queued or processing at startup were cut off by a restart
+ * and have nothing running them. Fail them, checkpoint intact, so they
+ * can be resumed instead of spinning forever.
+ */
+export async function failInterruptedJobs() {
+  const count = await storage.failUnfinishedJobs(
+    "Processing was interrupted by a server restart. Resume to continue."
+  );
+
+  if (count > 0) console.log(`⚠️ Marked ${count} interrupted job(s) as failed`);
+}
+
+/**
+ * Put a failed job back on the queue. It keeps its id and picks up
+ * from its checkpoint, so only chunks that never finished are redone.
+ */
+export async function resumeJob(jobId: number) {
+  const job = await storage.getJob(jobId);
+
+  if (!job) throw new JobStateError("Job not found", 404);
+  if (job.status !== "failed") {
+    throw new JobStateError("Only failed jobs can be resumed", 409);
+  }
+  // The failed run is still removing its temporary files
+  if (controllers.has(jobId)) {
+    throw new JobStateError("The job is still stopping. Try again shortly.", 409);
+  }
+
+  const input = job.input as StoredJobInput | null;
+  if (!input) {
+    throw new JobStateError("This job was started before it could be resumed", 409);
+  }
+
+  if (input.kind === "lecture") {
+    for (const part of input.parts) {
+      const exists = await fs.promises
+        .access(part.path)
+        .then(() => true, () => false);
+
+      if (!exists) {
+        throw new JobStateError(
+          "The uploaded recording is no longer available. Upload it again.",
+          410
+        );
+      }
+    }
+  }
+
+  const queued = await storage.updateJob(jobId, {
+    status: "queued",
+    stage: "queued",
+    progress: 0,
+    message: STAGE_MESSAGE.queued,
+    error: null,
+  });
+  if (!queued) throw new JobStateError("Job not found", 404);
+
+  publishJobProgress(toJobProgress(queued));
+
+  const signal = trackJob(jobId);
+  switch (input.kind) {
+    case "lecture":
+      queue(() => runLectureJob(jobId, input, signal));
+      break;
+    case "transcript":
+      queue(() => runTranscriptJob(jobId, input, signal));
+      break;
+    case "regenerate":
+      queue(() => runRegenerateJob(jobId, input.noteId, input, signal));
+      break;
+  }
+
+  return queued;
+}
+
+/* ---------------- CANCEL ---------------- */
+
+/**
+ * Stop a queued or running job. It is marked cancelled right away; the
+ * runner notices at its next step, removes its temporary files and
+ * leaves any existing note untouched. A job that is already saving its
+ * note is past the point where that can be promised, so it is refused.
+ */
+export async function cancelJob(jobId: number) {
+  const cancelled = await storage.updateUnfinishedJob(
+    jobId,
+    { status: "cancelled", message: "Cancelled" },
+    "saving"
+  );
+
+  if (!cancelled) {
+    const job = await storage.getJob(jobId);
+    if (!job) throw new JobStateError("Job not found", 404);
+    if (job.stage === "saving" && !isJobFinished(job.status)) {
+      throw new JobStateError("The notes are already being saved", 409);
+    }
+    throw new JobStateError("Only queued or running jobs can be cancelled", 409);
+  }
+
+  controllers.get(jobId)?.abort();
+  publishJobProgress(toJobProgress(cancelled));
+  return cancelled;
+}
+
+/**
+ * Delete a job, stopping it first if it is still running so its
+ * provider calls end now rather than at the runner's next report.
+ * Its uploads go too: a failed job kept them for resuming, which is
+ * no longer possible, and a stopped runner has no use for them.
+ */
+export async function deleteJob(jobId: number) {
+  const job = await storage.getJob(jobId);
+  controllers.get(jobId)?.abort();
+
+  const deleted = await storage.deleteJob(jobId);
+
+  const input = job?.input as StoredJobInput | null | undefined;
+  if (deleted && input?.kind === "lecture") {
+    for (const part of input.parts) {
+      await fs.promises.rm(part.path, { force: true });
+    }
+  }
+
+  return deleted;
+}
+
+/**
+ * Called when a progress stream closes. If nobody is watching the job
+ * once the grace period is over, cancel it; EventSource reconnects well
+ * within that, so a network blip doesn't count.
+ */
+export function cancelWhenUnwatched(jobId: number) {
+  if (CANCEL_UNWATCHED_MS <= 0 || !controllers.has(jobId)) return;
+
+  clearTimeout(unwatchedTimers.get(jobId));
+  const timer = setTimeout(() => {
+    unwatchedTimers.delete(jobId);
+    if (!controllers.has(jobId) || hasJobSubscribers(jobId)) return;
+
+    console.log(`👋 Nobody is following job ${jobId}, cancelling`);
+    cancelJob(jobId).catch(() => {});
+  }, CANCEL_UNWATCHED_MS);
+
+  timer.unref();
+  unwatchedTimers.set(jobId, timer);
+}
@@ -0,0 +1,54 @@
+import { EventEmitter } from "events";
+import type {
+  Job,
+  JobProgress,
+  JobStatus,
+  ProgressEvent,
+} from "@shared/schema";
+
+/* ---------------- JOB PROGRESS BUS ---------------- */
+
+// In-process fan-out from the pipeline to any open SSE connections
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+export function toJobProgress(job: Job, event?: ProgressEvent): JobProgress {
+  return {
+    jobId: job.id,
+    status: job.status,
+    stage: job.stage,
+    progress: job.progress,
+    message: job.message,
+    event,
+    result: job.result,
+    noteId: job.noteId,
+    error: job.error,
+  };
+}
+
+// No more updates will follow one of these
+export function isJobFinished(status: JobStatus): boolean {
+  return status === "completed" || status === "failed" || status === "cancelled";
+}
+
+export function publishJobProgress(update: JobProgress) {
+  bus.emit(`job:${update.jobId}`, update);
+}
+
+/**
+ * Listen for progress on a single job. Returns an unsubscribe function.
+ */
+export function subscribeToJob(
+  jobId: number,
+  listener: (update: JobProgress) => void
+): () => void {
+  bus.on(`job:${jobId}`, listener);
+  return () => {
+    bus.off(`job:${jobId}`, listener);
+  };
+}
+
+// Whether any SSE connection is still following the job
+export function hasJobSubscribers(jobId: number): boolean {
+  return bus.listenerCount(`job:${jobId}`) > 0;
+}
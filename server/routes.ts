@@ -1,91 +1,248 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import type { Server } from "http";
+import * as fs from "fs";
 import multer from "multer";
+import { z } from "zod";
 import { api } from "@shared/routes";
-import { transcribeAudio } from "./services/transcription";
-import { generateAISummary } from "./ai";
+import type { Job } from "@shared/schema";
+import {
+  enqueueLectureJob,
+  enqueueRegenerateJob,
+  enqueueTranscriptJob,
+  cancelJob,
+  cancelWhenUnwatched,
+  deleteJob,
+  JobStateError,
+  resumeJob,
+  type MediaPart,
+} from "./pipeline";
+import type { LectureMode } from "./ai";
+import { isJobFinished, subscribeToJob, toJobProgress } from "./progress";
+import { registerLiveTranscription } from "./live";
 import { storage } from "./storage";
+import { deleteNoteAudio, noteAudioPath } from "./services/audio-store";
+import { UnsupportedMediaError, probeMedia } from "./services/media";
+import {
+  MAX_TRANSCRIPT_BYTES,
+  TranscriptFileError,
+  parseTranscriptFile,
+} from "./services/captions";
+import {
+  MAX_UPLOAD_BYTES,
+  UPLOAD_DIR,
+  UploadError,
+  appendToUpload,
+  claimUpload,
+  createUpload,
+  deleteUpload,
+  getUpload,
+} from "./services/uploads";
+
+// Plain multipart uploads go to disk too, never into memory
+const upload = multer({
+  dest: UPLOAD_DIR,
+  limits: { fileSize: MAX_UPLOAD_BYTES },
+});
 
-import { exec } from "child_process";
-import { promisify } from "util";
-import * as fs from "fs";
-import * as path from "path";
-import * as os from "os";
+// Caption files are small enough to parse straight from memory
+const transcriptUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_TRANSCRIPT_BYTES },
+});
 
-const execAsync = promisify(exec);
+const createUploadSchema = z.object({
+  fileName: z.string().trim().min(1).max(255),
+  size: z.number().int().positive(),
+});
 
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: { fileSize: 200 * 1024 * 1024 },
+const renameNoteSchema = z.object({
+  fileName: z.string().trim().min(1).max(200),
 });
 
-/* ---------------- AUDIO SPLIT ---------------- */
+const regenerateNoteSchema = z.object({
+  mode: z.enum(["theory", "numerical"]).default("theory"),
+  marksList: z.array(z.number().int().min(1).max(20)).min(1).max(2),
+  instructions: z.string().trim().max(2000).optional(),
+});
 
-async function splitAudioIntoChunks(
-  audioBuffer: Buffer,
-  format: string
-): Promise<Buffer[]> {
-  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "audio-"));
-  const inputPath = path.join(tempDir, `input.${format}`);
-  const outputPattern = path.join(tempDir, "chunk_%03d.wav");
+// A lecture split over several files, in playing order
+const MAX_PARTS = 10;
 
-  try {
-    fs.writeFileSync(inputPath, audioBuffer);
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
 
-    const { stdout } = await execAsync(
-      `ffprobe -v error -show_entries format=duration -of csv=p=0 "${inputPath}"`
-    );
+// Jobs one batch progress stream may follow
+const MAX_STREAMED_JOBS = 100;
 
-    const duration = parseFloat(stdout.trim());
-    const CHUNK_DURATION = 180; // 3 minutes
+function sendUploadError(res: Response, err: any) {
+  if (res.headersSent) return;
 
-    if (duration <= CHUNK_DURATION) {
-      const wavPath = path.join(tempDir, "single.wav");
-      await execAsync(
-        `ffmpeg -i "${inputPath}" -ar 16000 -ac 1 "${wavPath}" -y`
-      );
-      return [fs.readFileSync(wavPath)];
+  if (err instanceof UploadError) {
+    return res.status(err.status).json({ message: err.message });
+  }
+
+  console.error(err);
+  res.status(500).json({ message: err.message || "Upload failed" });
+}
+
+/* ---------------- GENERATION SETTINGS ---------------- */
+
+function readMode(body: any): LectureMode {
+  const mode = body.mode === "numerical" ? "numerical" : "theory";
+  console.log("📘 Selected Mode:", mode);
+  return mode;
+}
+
+function readMarksList(body: any): number[] {
+  let marksList: number[] = [2, 5];
+
+  try {
+    if (body.marksList) {
+      // JSON string from multipart forms, plain array from JSON bodies
+      const parsed =
+        typeof body.marksList === "string"
+          ? JSON.parse(body.marksList)
+          : body.marksList;
+
+      if (Array.isArray(parsed)) {
+        marksList = parsed
+          .map((m) => Number(m))
+          .filter((m) => !isNaN(m) && m > 0);
+      }
     }
+  } catch {
+    console.log("Invalid marksList format, using default.");
+  }
 
-    await execAsync(
-      `ffmpeg -i "${inputPath}" -f segment -segment_time ${CHUNK_DURATION} -ar 16000 -ac 1 "${outputPattern}" -y`
-    );
+  marksList = marksList.slice(0, 2);
+  console.log("📝 Selected Marks:", marksList);
+  return marksList;
+}
+
+/* ---------------- SOURCE FILES ---------------- */
+
+type SourceFile = { filePath: string; fileName: string };
 
-    return fs
-      .readdirSync(tempDir)
-      .filter((f) => f.startsWith("chunk_"))
-      .sort()
-      .map((f) => fs.readFileSync(path.join(tempDir, f)));
-  } finally {
-    fs.rmSync(tempDir, { recursive: true, force: true });
+/**
+ * The recordings a request refers to, in order: a plain multipart file,
+ * one finished resumable upload, or several as `uploadIds`.
+ */
+async function claimSources(req: any): Promise<SourceFile[]> {
+  if (req.file) {
+    return [
+      {
+        filePath: req.file.path,
+        fileName: req.file.originalname || "recording",
+      },
+    ];
+  }
+
+  if (req.body.uploadId) {
+    return [await claimUpload(String(req.body.uploadId))];
+  }
+
+  const ids = req.body.uploadIds;
+  if (!Array.isArray(ids) || ids.length === 0) return [];
+
+  if (ids.length > MAX_PARTS) {
+    throw new UploadError(`A lecture can have at most ${MAX_PARTS} parts`, 400);
+  }
+
+  const sources: SourceFile[] = [];
+  try {
+    for (const id of ids) sources.push(await claimUpload(String(id)));
+  } catch (err) {
+    await removeSources(sources);
+    throw err;
   }
+  return sources;
 }
 
-/* ---------------- SAFE TRANSCRIBE (FIXED) ---------------- */
+async function removeSources(sources: SourceFile[]) {
+  for (const source of sources) {
+    await fs.promises.rm(source.filePath, { force: true });
+  }
+}
 
-async function transcribeChunks(chunks: Buffer[]): Promise<string> {
-  const BATCH_SIZE = 5;
-  const results: string[] = [];
+// Probe the content itself; file names and MIME types lie
+async function probeSources(sources: SourceFile[]): Promise<MediaPart[]> {
+  const parts: MediaPart[] = [];
 
-  for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
-    const batch = chunks.slice(i, i + BATCH_SIZE);
+  for (const [index, source] of sources.entries()) {
+    try {
+      const media = await probeMedia(source.filePath);
+      console.log(
+        `🎞️ Detected ${media.container} (${media.audioCodec})${media.hasVideo ? " with video" : ""}`
+      );
+      parts.push({ path: source.filePath, media });
+    } catch (err) {
+      // Say which part is broken when there are several
+      if (err instanceof UnsupportedMediaError && sources.length > 1) {
+        err.message = `Part ${index + 1} (${source.fileName}): ${err.message}`;
+      }
+      throw err;
+    }
+  }
 
-    console.log(`🚀 Processing batch ${i / BATCH_SIZE + 1}`);
+  return parts;
+}
 
-    const batchResults = await Promise.all(
-      batch.map((chunk, index) => {
-        console.log(`🎤 Transcribing chunk ${i + index + 1}`);
-        return transcribeAudio(chunk);
-      })
-    );
+/* ---------------- JOB PROGRESS ---------------- */
+
+/**
+ * Stream progress for some jobs as Server-Sent Events until every one
+ * has finished. Updates carry their job id, so a batch shares one
+ * connection. Ids with no job get a `missing` event instead.
+ */
+function streamJobProgress(
+  res: Response,
+  found: Job[],
+  missing: number[] = []
+) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  const send = (data: unknown, event?: string) => {
+    if (event) res.write(`event: ${event}\n`);
+    res.write(`data: ${JSON.stringify(data)}\n\n`);
+  };
 
-    results.push(...batchResults);
+  for (const jobId of missing) send({ jobId }, "missing");
 
-    // Small delay to avoid hitting API rate limits
-    await new Promise((res) => setTimeout(res, 1500));
+  // Current snapshots first so late subscribers are not left blank
+  const running = new Set<number>();
+  for (const job of found) {
+    send(toJobProgress(job));
+    if (!isJobFinished(job.status)) running.add(job.id);
   }
 
-  return results.join("\n\n").trim();
+  if (running.size === 0) {
+    return res.end();
+  }
+
+  // Keep proxies from closing an idle stream during long stages
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), 15000);
+
+  const unsubscribes = Array.from(running, (jobId) =>
+    subscribeToJob(jobId, (update) => {
+      send(update);
+
+      if (isJobFinished(update.status)) {
+        running.delete(jobId);
+        if (running.size === 0) res.end();
+      }
+    })
+  );
+
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribes.forEach((unsubscribe) => unsubscribe());
+    // The tab may have been closed; stop paying for work nobody sees
+    found.forEach((job) => cancelWhenUnwatched(job.id));
+  });
 }
 
 /* ---------------- ROUTES ---------------- */
@@ -96,84 +253,433 @@ export async function registerRoutes(
 ): Promise<Server> {
 
   app.post(api.process.path, upload.single("audio"), async (req, res) => {
+    // Finished resumable uploads or a plain multipart file
+    let sources: SourceFile[] = [];
+
     try {
-      if (!req.file) {
+      /* ---------------- SOURCE FILES ---------------- */
+
+      sources = await claimSources(req);
+
+      if (sources.length === 0) {
         return res.status(400).json({ message: "No audio file provided" });
       }
 
-      /* ---------------- MODE ---------------- */
+      /* ---------------- MODE & MARKS ---------------- */
+
+      const mode = readMode(req.body);
+      const marksList = readMarksList(req.body);
+
+      /* ---------------- CLASS QUESTIONS ---------------- */
+
+      const separateQuestions = String(req.body.separateQuestions) === "true";
+
+      /* ---------------- MEDIA FORMAT ---------------- */
+
+      const parts = await probeSources(sources);
 
-      const mode = req.body.mode === "numerical" ? "numerical" : "theory";
-      console.log("📘 Selected Mode:", mode);
+      /* ---------------- QUEUE JOB ---------------- */
 
-      /* ---------------- MARKS LIST ---------------- */
+      const job = await enqueueLectureJob({
+        fileName: sources[0].fileName,
+        parts,
+        mode,
+        marksList,
+        separateQuestions,
+      });
 
-      let marksList: number[] = [2, 5];
+      res.status(202).json({ jobId: job.id });
+
+    } catch (err: any) {
+      // No job took ownership of the files (a bad file, ffprobe failing,
+      // the job store), so drop them here
+      await removeSources(sources);
 
+      if (err instanceof UnsupportedMediaError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+
+      if (err instanceof UploadError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+
+      console.error(err);
+      res.status(500).json({
+        message: err.message || "Processing failed",
+      });
+    }
+  });
+
+  /* ---------------- TRANSCRIPT INGESTION ---------------- */
+
+  // Captions or a typed transcript: no audio to split or transcribe
+  app.post(
+    api.transcripts.ingest.path,
+    transcriptUpload.single("transcript"),
+    async (req, res) => {
       try {
-        if (req.body.marksList) {
-          const parsed = JSON.parse(req.body.marksList);
-
-          if (Array.isArray(parsed)) {
-            marksList = parsed
-              .map((m) => Number(m))
-              .filter((m) => !isNaN(m) && m > 0);
-          }
+        if (!req.file) {
+          return res.status(400).json({ message: "No transcript file provided" });
+        }
+
+        const fileName = req.file.originalname || "transcript.txt";
+        const transcript = parseTranscriptFile(fileName, req.file.buffer);
+
+        const job = await enqueueTranscriptJob({
+          fileName,
+          transcript,
+          mode: readMode(req.body),
+          marksList: readMarksList(req.body),
+        });
+
+        res.status(202).json({ jobId: job.id });
+      } catch (err: any) {
+        if (err instanceof TranscriptFileError) {
+          return res.status(err.status).json({ message: err.message });
         }
-      } catch {
-        console.log("Invalid marksList format, using default.");
+
+        console.error(err);
+        res.status(500).json({
+          message: err.message || "Processing failed",
+        });
       }
+    }
+  );
 
-      marksList = marksList.slice(0, 2);
-      console.log("📝 Selected Marks:", marksList);
+  /* ---------------- RESUMABLE UPLOADS ---------------- */
 
-      /* ---------------- AUDIO FORMAT ---------------- */
+  app.post(api.uploads.create.path, async (req, res) => {
+    try {
+      const parsed = createUploadSchema.safeParse(req.body);
 
-      let format = "webm";
-      const name = req.file.originalname?.toLowerCase() || "";
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0]?.message || "Invalid upload",
+        });
+      }
 
-      if (name.endsWith(".wav")) format = "wav";
-      else if (name.endsWith(".mp3")) format = "mp3";
-      else if (name.endsWith(".m4a")) format = "m4a";
+      const session = await createUpload(parsed.data.fileName, parsed.data.size);
+      res.status(201).json(session);
+    } catch (err: any) {
+      sendUploadError(res, err);
+    }
+  });
 
-      /* ---------------- PROCESS AUDIO ---------------- */
+  // tus-style offset query: the client asks where to resume from
+  app.head(api.uploads.status.path, async (req, res) => {
+    try {
+      const session = await getUpload(String(req.params.id));
 
-      const chunks = await splitAudioIntoChunks(req.file.buffer, format);
-      console.log(`🔪 Total Chunks Created: ${chunks.length}`);
+      if (!session) {
+        return res.status(404).end();
+      }
 
-      const transcription = await transcribeChunks(chunks);
+      res
+        .set({
+          "Upload-Offset": String(session.offset),
+          "Upload-Length": String(session.size),
+          "Cache-Control": "no-store",
+        })
+        .status(204)
+        .end();
+    } catch (err: any) {
+      sendUploadError(res, err);
+    }
+  });
 
-      if (!transcription) {
-        return res.status(400).json({ message: "No speech detected" });
+  app.patch(api.uploads.append.path, async (req, res) => {
+    try {
+      if (req.headers["content-type"] !== "application/offset+octet-stream") {
+        return res.status(415).json({
+          message: "Expected Content-Type application/offset+octet-stream",
+        });
       }
 
-      /* ---------------- AI SUMMARY ---------------- */
+      const offset = Number(req.headers["upload-offset"]);
 
-      const aiResult = await generateAISummary(
-        transcription,
-        mode,
-        marksList
-      );
+      if (!Number.isInteger(offset) || offset < 0) {
+        return res.status(400).json({ message: "Missing Upload-Offset header" });
+      }
 
-      /* ---------------- SAVE ---------------- */
+      const newOffset = await appendToUpload(String(req.params.id), offset, req);
 
-      await storage.createNote({
-        fileName: req.file.originalname || "recording",
-        transcription,
-        summary: aiResult.summary,
-        structuredNotes: aiResult.structuredNotes,
-        qaPairs: aiResult.qaPairs,
+      res.set("Upload-Offset", String(newOffset)).status(204).end();
+    } catch (err: any) {
+      sendUploadError(res, err);
+    }
+  });
+
+  app.delete(api.uploads.delete.path, async (req, res) => {
+    try {
+      await deleteUpload(String(req.params.id));
+      res.status(204).end();
+    } catch (err: any) {
+      sendUploadError(res, err);
+    }
+  });
+
+  /* ---------------- NOTES ---------------- */
+
+  app.get(api.notes.list.path, async (req, res) => {
+    const limit = Math.min(
+      Math.max(Number(req.query.limit) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+
+    res.json(await storage.listNotes({ limit, offset }));
+  });
+
+  app.get(api.notes.get.path, async (req, res) => {
+    const note = await storage.getNote(Number(req.params.id));
+
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+
+    res.json(note);
+  });
+
+  app.patch(api.notes.update.path, async (req, res) => {
+    const parsed = renameNoteSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: parsed.error.errors[0]?.message || "Invalid note update",
+      });
+    }
+
+    const note = await storage.updateNote(Number(req.params.id), parsed.data);
+
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+
+    res.json(note);
+  });
+
+  app.delete(api.notes.delete.path, async (req, res) => {
+    const id = Number(req.params.id);
+    const note = await storage.getNote(id);
+
+    if (!note || !(await storage.deleteNote(id))) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+
+    if (note.audioFile) {
+      await deleteNoteAudio(note.audioFile);
+    }
+
+    res.status(204).end();
+  });
+
+  /* ---------------- REGENERATION ---------------- */
+
+  app.post(api.notes.regenerate.path, async (req, res) => {
+    const parsed = regenerateNoteSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: parsed.error.errors[0]?.message || "Invalid regeneration settings",
       });
+    }
+
+    const note = await storage.getNote(Number(req.params.id));
+
+    if (!note) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+
+    const { mode, marksList, instructions } = parsed.data;
+    const job = await enqueueRegenerateJob(note, {
+      mode,
+      marksList,
+      instructions,
+    });
+    res.status(202).json({ jobId: job.id });
+  });
+
+  app.get(api.notes.versions.path, async (req, res) => {
+    const id = Number(req.params.id);
 
-      res.json(aiResult);
+    if (!(await storage.getNote(id))) {
+      return res.status(404).json({ message: "Note not found" });
+    }
+
+    res.json(await storage.listNoteVersions(id));
+  });
+
+  /* ---------------- MORE PARTS ---------------- */
+
+  // A recording that continues the note's lecture; the whole pipeline
+  // runs again on the joined audio
+  app.post(api.notes.appendPart.path, upload.single("audio"), async (req, res) => {
+    let sources: SourceFile[] = [];
+
+    try {
+      sources = await claimSources(req);
 
+      if (sources.length === 0) {
+        return res.status(400).json({ message: "No audio file provided" });
+      }
+
+      const note = await storage.getNote(Number(req.params.id));
+
+      if (!note) {
+        await removeSources(sources);
+        return res.status(404).json({ message: "Note not found" });
+      }
+
+      if (!note.audioFile) {
+        await removeSources(sources);
+        return res.status(400).json({
+          message: "This note was made from a transcript and has no recording to add to",
+        });
+      }
+
+      const parts = await probeSources(sources);
+
+      const job = await enqueueLectureJob({
+        fileName: note.fileName,
+        parts,
+        mode: note.mode,
+        marksList: note.marksList,
+        // Diarized notes stay diarized
+        separateQuestions: note.segments.some((s) => s.speaker),
+        noteId: note.id,
+      });
+
+      res.status(202).json({ jobId: job.id });
     } catch (err: any) {
+      // As for a new lecture: without a job the files are nobody's
+      await removeSources(sources);
+
+      if (err instanceof UnsupportedMediaError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+
+      if (err instanceof UploadError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+
       console.error(err);
-      res.status(500).json({
-        message: err.message || "Processing failed",
+      res.status(500).json({ message: err.message || "Processing failed" });
+    }
+  });
+
+  // sendFile answers Range requests, so the player can seek
+  app.get(api.notes.audio.path, async (req, res) => {
+    const note = await storage.getNote(Number(req.params.id));
+
+    if (!note?.audioFile) {
+      return res.status(404).json({ message: "No audio for this note" });
+    }
+
+    res.sendFile(noteAudioPath(note.audioFile), (err) => {
+      if (err && !res.headersSent) {
+        res.status(404).json({ message: "Audio file missing" });
+      }
+    });
+  });
+
+  /* ---------------- JOBS ---------------- */
+
+  app.get(api.jobs.get.path, async (req, res) => {
+    const job = await storage.getJob(Number(req.params.id));
+
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+
+    // Upload paths and partial results are for the server only
+    const { input, checkpoint, ...visible } = job;
+    res.json(visible);
+  });
+
+  /* ---------------- JOB PROGRESS (SSE) ---------------- */
+
+  app.get(api.jobs.events.path, async (req, res) => {
+    const jobId = Number(req.params.id);
+    const job = await storage.getJob(jobId);
+
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+
+    streamJobProgress(res, [job]);
+  });
+
+  // Many jobs over one stream: `?ids=1,2,3`
+  app.get(api.jobs.batchEvents.path, async (req, res) => {
+    const ids = Array.from(
+      new Set(
+        String(req.query.ids ?? "")
+          .split(",")
+          .map(Number)
+          .filter((id) => Number.isInteger(id) && id > 0)
+      )
+    );
+
+    if (ids.length === 0 || ids.length > MAX_STREAMED_JOBS) {
+      return res.status(400).json({
+        message: `Give between 1 and ${MAX_STREAMED_JOBS} job ids`,
       });
     }
+
+    const found: Job[] = [];
+    const missing: number[] = [];
+    for (const id of ids) {
+      const job = await storage.getJob(id);
+      if (job) found.push(job);
+      else missing.push(id);
+    }
+
+    streamJobProgress(res, found, missing);
+  });
+
+  /* ---------------- RESUME FAILED JOB ---------------- */
+
+  app.post(api.jobs.resume.path, async (req, res) => {
+    try {
+      const job = await resumeJob(Number(req.params.id));
+      res.status(202).json({ jobId: job.id });
+    } catch (err: any) {
+      if (err instanceof JobStateError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Could not resume the job" });
+    }
   });
 
+  /* ---------------- CANCEL JOB ---------------- */
+
+  app.post(api.jobs.cancel.path, async (req, res) => {
+    try {
+      await cancelJob(Number(req.params.id));
+      res.status(204).end();
+    } catch (err: any) {
+      if (err instanceof JobStateError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Could not cancel the job" });
+    }
+  });
+
+  app.delete(api.jobs.delete.path, async (req, res) => {
+    const deleted = await deleteJob(Number(req.params.id));
+
+    if (!deleted) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+
+    res.status(204).end();
+  });
+
+  /* ---------------- LIVE TRANSCRIPTION ---------------- */
+
+  registerLiveTranscription(httpServer);
+
   return httpServer;
 }
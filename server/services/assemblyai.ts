@@ -0,0 +1,86 @@
+import { AssemblyAI, type Transcript } from "assemblyai";
+import { sleep } from "./rate-limit";
+import {
+  groupWordsIntoSegments,
+  type TranscriptionOptions,
+  type TranscriptionProvider,
+  type TranscriptionResult,
+} from "./transcription";
+
+// How often a submitted transcript is checked, same as the SDK default
+const POLL_INTERVAL_MS = 3000;
+
+export class AssemblyAIProvider implements TranscriptionProvider {
+  readonly name = "assemblyai";
+  readonly fingerprint = "assemblyai:universal:language_detection";
+  private client: AssemblyAI;
+
+  constructor(apiKey = process.env.ASSEMBLYAI_API_KEY) {
+    if (!apiKey) {
+      throw new Error("ASSEMBLYAI_API_KEY is required for AssemblyAI transcription");
+    }
+
+    this.client = new AssemblyAI({ apiKey });
+  }
+
+  async transcribe(
+    audioBuffer: Buffer,
+    options: TranscriptionOptions = {}
+  ): Promise<TranscriptionResult> {
+    const { signal } = options;
+
+    // Upload buffer → returns STRING URL
+    const audioUrl = await this.client.files.upload(audioBuffer);
+    signal?.throwIfAborted();
+
+    // Submit, then poll ourselves so a cancelled job stops waiting
+    const submitted = await this.client.transcripts.submit({
+      audio_url: audioUrl,
+      language_detection: true,
+      speaker_labels: options.speakerLabels ?? false,
+    });
+    const transcript = await this.waitUntilReady(submitted, signal);
+
+    // A failed chunk must not pass for silence, or it gets cached
+    if (transcript.status === "error") {
+      throw new Error(
+        `AssemblyAI could not transcribe this audio: ${transcript.error || "unknown error"}`
+      );
+    }
+
+    // Word timings come back in milliseconds
+    const toSegment = (w: { start: number; end: number; text: string }) => ({
+      start: w.start / 1000,
+      end: w.end / 1000,
+      text: w.text,
+    });
+
+    // With diarization, group within each speaker turn so a segment
+    // never spans two speakers
+    const segments = transcript.utterances?.length
+      ? transcript.utterances.flatMap((u) =>
+          groupWordsIntoSegments(u.words.map(toSegment)).map((s) => ({
+            ...s,
+            speaker: u.speaker,
+          }))
+        )
+      : groupWordsIntoSegments((transcript.words ?? []).map(toSegment));
+
+    return {
+      text: transcript.text ?? "",
+      segments,
+    };
+  }
+
+  private async waitUntilReady(
+    transcript: Transcript,
+    signal?: AbortSignal
+  ): Promise<Transcript> {
+    while (transcript.status !== "completed" && transcript.status !== "error") {
+      await sleep(POLL_INTERVAL_MS, signal);
+      transcript = await this.client.transcripts.get(transcript.id);
+    }
+
+    return transcript;
+  }
+}
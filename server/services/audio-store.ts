@@ -0,0 +1,40 @@
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+// Where original recordings are kept so notes can play them back
+const AUDIO_DIR = path.resolve(process.env.AUDIO_DIR || "uploads/audio");
+
+/**
+ * Move a recording into the audio store and return the file name to
+ * keep on the note.
+ */
+export async function saveNoteAudio(
+  sourcePath: string,
+  format: string
+): Promise<string> {
+  await fs.promises.mkdir(AUDIO_DIR, { recursive: true });
+
+  const fileName = `${randomUUID()}.${format}`;
+  const target = path.join(AUDIO_DIR, fileName);
+
+  try {
+    await fs.promises.rename(sourcePath, target);
+  } catch (err: any) {
+    // Upload dir and audio dir may sit on different devices
+    if (err.code !== "EXDEV") throw err;
+    await fs.promises.copyFile(sourcePath, target);
+    await fs.promises.rm(sourcePath, { force: true });
+  }
+
+  return fileName;
+}
+
+export function noteAudioPath(fileName: string): string {
+  // basename guards against anything sneaking a path into the column
+  return path.join(AUDIO_DIR, path.basename(fileName));
+}
+
+export async function deleteNoteAudio(fileName: string): Promise<void> {
+  await fs.promises.rm(noteAudioPath(fileName), { force: true });
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { planChunks, type SegmentationOptions } from "./audio";
+
+const options: SegmentationOptions = {
+  targetSeconds: 180,
+  minSeconds: 120,
+  maxSeconds: 240,
+  overlapSeconds: 1.5,
+  noiseDb: -30,
+  minSilenceSeconds: 0.4,
+};
+
+describe("planChunks", () => {
+  it("keeps a short recording in one chunk", () => {
+    expect(planChunks(200, [], options)).toEqual([
+      { start: 0, end: 200, cut: "end", overlap: 0 },
+    ]);
+  });
+
+  it("cuts in the middle of the pause nearest the target", () => {
+    const silences = [
+      { start: 130, end: 131 },
+      { start: 189, end: 191 },
+      { start: 250, end: 251 },
+    ];
+
+    expect(planChunks(300, silences, options)).toEqual([
+      { start: 0, end: 190, cut: "silence", overlap: 0 },
+      { start: 190, end: 300, cut: "end", overlap: 0 },
+    ]);
+  });
+
+  it("ignores pauses outside the allowed window", () => {
+    const silences = [
+      { start: 50, end: 51 },
+      { start: 300, end: 301 },
+    ];
+
+    expect(planChunks(400, silences, options)[0]).toEqual({
+      start: 0,
+      end: 181.5,
+      cut: "hard",
+      overlap: 1.5,
+    });
+  });
+
+  it("overlaps hard cuts and starts the next chunk at the cut", () => {
+    expect(planChunks(500, [], options)).toEqual([
+      { start: 0, end: 181.5, cut: "hard", overlap: 1.5 },
+      { start: 180, end: 361.5, cut: "hard", overlap: 1.5 },
+      { start: 360, end: 500, cut: "end", overlap: 0 },
+    ]);
+  });
+
+  it("makes plain hard cuts with overlap disabled", () => {
+    expect(planChunks(300, [], { ...options, overlapSeconds: 0 })).toEqual([
+      { start: 0, end: 180, cut: "hard", overlap: 0 },
+      { start: 180, end: 300, cut: "end", overlap: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,186 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import type { ChunkBoundary } from "@shared/schema";
+import { runFfmpeg, runFfprobe } from "./media";
+
+export interface AudioChunk extends ChunkBoundary {
+  buffer: Buffer;
+}
+
+export interface Silence {
+  start: number;
+  end: number;
+}
+
+export interface SegmentationOptions {
+  // Preferred chunk length; cuts land in the pause closest to it
+  targetSeconds: number;
+  // Window a cut may move within, around the target
+  minSeconds: number;
+  maxSeconds: number;
+  // Shared audio on either side of a hard cut, 0 to disable
+  overlapSeconds: number;
+  // silencedetect threshold and minimum pause length
+  noiseDb: number;
+  minSilenceSeconds: number;
+}
+
+export function segmentationOptionsFromEnv(): SegmentationOptions {
+  const target = Number(process.env.CHUNK_TARGET_SECONDS) || 180; // 3 minutes
+
+  return {
+    targetSeconds: target,
+    minSeconds: target * (2 / 3),
+    maxSeconds: target * (4 / 3),
+    overlapSeconds: Number(process.env.CHUNK_OVERLAP_SECONDS ?? 1.5),
+    noiseDb: Number(process.env.SILENCE_NOISE_DB) || -30,
+    minSilenceSeconds: Number(process.env.SILENCE_MIN_SECONDS) || 0.4,
+  };
+}
+
+/* ---------------- PROBING ---------------- */
+
+export async function getAudioDuration(
+  inputPath: string,
+  signal?: AbortSignal
+): Promise<number> {
+  const { stdout } = await runFfprobe(
+    ["-v", "error", "-show_entries", "format=duration", "-of", "csv=p=0", inputPath],
+    { timeoutMs: 60_000, signal }
+  );
+
+  return parseFloat(stdout.trim());
+}
+
+/**
+ * Run ffmpeg's silencedetect filter and collect the pauses it reports.
+ */
+export async function detectSilences(
+  inputPath: string,
+  noiseDb: number,
+  minSeconds: number,
+  signal?: AbortSignal
+): Promise<Silence[]> {
+  const { stderr } = await runFfmpeg(
+    [
+      "-nostats",
+      "-i", inputPath,
+      "-af", `silencedetect=noise=${noiseDb}dB:d=${minSeconds}`,
+      "-f", "null",
+      "-",
+    ],
+    { signal }
+  );
+
+  const silences: Silence[] = [];
+  let start: number | null = null;
+
+  for (const line of stderr.split("\n")) {
+    const startMatch = line.match(/silence_start: (-?[\d.]+)/);
+    const endMatch = line.match(/silence_end: ([\d.]+)/);
+
+    if (startMatch) start = Math.max(0, parseFloat(startMatch[1]));
+    if (endMatch && start !== null) {
+      silences.push({ start, end: parseFloat(endMatch[1]) });
+      start = null;
+    }
+  }
+
+  return silences;
+}
+
+/* ---------------- CUT PLANNING ---------------- */
+
+/**
+ * Choose chunk boundaries: each cut goes in the middle of the pause
+ * nearest the target length, within [min, max]. Without a usable pause
+ * the cut falls on the target and the chunk runs `overlapSeconds` past
+ * it, so words cut in half are still heard whole by one side.
+ */
+export function planChunks(
+  duration: number,
+  silences: Silence[],
+  options: SegmentationOptions
+): ChunkBoundary[] {
+  const chunks: ChunkBoundary[] = [];
+  let start = 0;
+
+  while (duration - start > options.maxSeconds) {
+    const target = start + options.targetSeconds;
+    let best: number | null = null;
+
+    for (const silence of silences) {
+      const mid = (silence.start + silence.end) / 2;
+      if (mid < start + options.minSeconds || mid > start + options.maxSeconds) {
+        continue;
+      }
+      if (best === null || Math.abs(mid - target) < Math.abs(best - target)) {
+        best = mid;
+      }
+    }
+
+    if (best !== null) {
+      chunks.push({ start, end: best, cut: "silence", overlap: 0 });
+      start = best;
+    } else {
+      const overlap = options.overlapSeconds;
+      chunks.push({ start, end: target + overlap, cut: "hard", overlap });
+      start = target;
+    }
+  }
+
+  chunks.push({ start, end: duration, cut: "end", overlap: 0 });
+  return chunks;
+}
+
+/* ---------------- AUDIO SPLIT ---------------- */
+
+export async function splitAudioIntoChunks(
+  inputPath: string,
+  options: SegmentationOptions = segmentationOptionsFromEnv(),
+  signal?: AbortSignal
+): Promise<AudioChunk[]> {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "audio-"));
+
+  try {
+    const duration = await getAudioDuration(inputPath, signal);
+
+    const silences =
+      duration > options.maxSeconds
+        ? await detectSilences(
+            inputPath,
+            options.noiseDb,
+            options.minSilenceSeconds,
+            signal
+          )
+        : [];
+
+    const plan = planChunks(duration, silences, options);
+    const chunks: AudioChunk[] = [];
+
+    for (const [index, boundary] of plan.entries()) {
+      const wavPath = path.join(
+        tempDir,
+        `chunk_${String(index).padStart(3, "0")}.wav`
+      );
+
+      await runFfmpeg(
+        [
+          "-ss", String(boundary.start),
+          "-t", String(boundary.end - boundary.start),
+          "-i", inputPath,
+          "-vn", "-ar", "16000", "-ac", "1",
+          "-y", wavPath,
+        ],
+        { signal }
+      );
+
+      chunks.push({ ...boundary, buffer: fs.readFileSync(wavPath) });
+    }
+
+    return chunks;
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { parseTranscriptFile, TranscriptFileError } from "./captions";
+
+function parse(fileName: string, content: string) {
+  return parseTranscriptFile(fileName, Buffer.from(content));
+}
+
+describe("parseTranscriptFile", () => {
+  it("skips the VTT header, NOTE and STYLE blocks", () => {
+    const result = parse(
+      "lecture.vtt",
+      [
+        "WEBVTT - Biology 101",
+        "Kind: captions",
+        "",
+        "NOTE Exported from the lecture capture system",
+        "",
+        "STYLE",
+        "::cue { color: yellow }",
+        "",
+        "intro",
+        "00:00:01.000 --> 00:00:04.500 align:start position:10%",
+        "<v Lecturer>Cells turn <i>glucose</i> into energy.",
+      ].join("\n")
+    );
+
+    expect(result).toEqual({
+      text: "Cells turn glucose into energy.",
+      segments: [{ start: 1, end: 4.5, text: "Cells turn glucose into energy." }],
+    });
+  });
+
+  it("reads SRT timestamps with comma milliseconds", () => {
+    const result = parse(
+      "lecture.srt",
+      [
+        "1",
+        "00:00:01,250 --> 00:00:03,500",
+        "First line.",
+        "",
+        "2",
+        "01:02:03,004 --> 01:02:05,000",
+        "Second line.",
+      ].join("\r\n")
+    );
+
+    expect(result.segments).toEqual([
+      { start: 1.25, end: 3.5, text: "First line." },
+      { start: 3723.004, end: 3725, text: "Second line." },
+    ]);
+  });
+
+  it("joins the lines of a multi-line cue", () => {
+    const result = parse(
+      "lecture.srt",
+      "1\n00:00:00,000 --> 00:00:02,000\nThe mitochondria\nmakes ATP.\n"
+    );
+
+    expect(result.segments).toEqual([
+      { start: 0, end: 2, text: "The mitochondria makes ATP." },
+    ]);
+  });
+
+  it("keeps a rolling caption's repeated line once", () => {
+    const result = parse(
+      "lecture.vtt",
+      [
+        "WEBVTT",
+        "",
+        "00:01.000 --> 00:02.000",
+        "Same words",
+        "",
+        "00:02.000 --> 00:03.000",
+        "Same words",
+      ].join("\n")
+    );
+
+    expect(result.segments).toEqual([{ start: 1, end: 3, text: "Same words" }]);
+  });
+
+  it("keeps captions saved as .txt timed", () => {
+    const result = parse(
+      "captions.txt",
+      "1\n00:00:01,000 --> 00:00:02,000\nHello.\n"
+    );
+
+    expect(result.segments).toEqual([{ start: 1, end: 2, text: "Hello." }]);
+  });
+
+  it("reads plain text without segments", () => {
+    expect(parse("notes.txt", "\uFEFFTyped notes.\r\nMore notes.\n")).toEqual({
+      text: "Typed notes.\nMore notes.",
+      segments: [],
+    });
+  });
+
+  it("refuses an unknown extension with 415", () => {
+    expect(() => parse("lecture.docx", "Some words")).toThrow(
+      expect.objectContaining({
+        name: "TranscriptFileError",
+        status: 415,
+      })
+    );
+  });
+
+  it("refuses a caption file without cues", () => {
+    expect(() => parse("lecture.vtt", "WEBVTT\n\nNOTE nothing here")).toThrow(
+      TranscriptFileError
+    );
+  });
+});
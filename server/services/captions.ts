@@ -0,0 +1,140 @@
+import type { TranscriptSegment } from "@shared/schema";
+import type { TranscriptionResult } from "./transcription";
+
+export type TranscriptFormat = "txt" | "srt" | "vtt";
+
+// Caption files are small; anything bigger is almost certainly not one
+export const MAX_TRANSCRIPT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Raised for transcript uploads we can't turn into text. Carries an
+ * HTTP status so routes can pass it straight to the client.
+ */
+export class TranscriptFileError extends Error {
+  constructor(
+    message: string,
+    public status = 400
+  ) {
+    super(message);
+    this.name = "TranscriptFileError";
+  }
+}
+
+/**
+ * Pick the format from the extension, falling back to sniffing the
+ * content so a caption file saved as .txt still keeps its timestamps.
+ */
+export function detectTranscriptFormat(
+  fileName: string,
+  content: string
+): TranscriptFormat {
+  const extension = fileName.toLowerCase().split(".").pop();
+
+  if (content.startsWith("WEBVTT")) return "vtt";
+  if (extension === "vtt" || extension === "srt") return extension;
+  if (/^\d+\s*\r?\n[\d:,.]+\s*-->\s*[\d:,.]+/m.test(content)) return "srt";
+  if (extension === "txt") return "txt";
+
+  throw new TranscriptFileError(
+    "Unsupported transcript file. Upload a .txt, .srt or .vtt file.",
+    415
+  );
+}
+
+/* ---------------- CUE PARSING ---------------- */
+
+// "01:02:03,456", "02:03.456" or "1:02:03.4"
+function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/);
+  if (!match) return null;
+
+  const [, hours = "0", minutes, seconds, fraction] = match;
+  return (
+    Number(hours) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number(fraction.padEnd(3, "0")) / 1000
+  );
+}
+
+// Drop <i>, <b>, <c.color>, <00:00:01.000> karaoke tags and speaker voices
+function stripCueMarkup(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Parse SRT or WebVTT cues. Both are blank-line separated blocks with a
+ * "start --> end" line followed by the caption text; anything without a
+ * timing line (headers, NOTE and STYLE blocks) is skipped.
+ */
+function parseCues(content: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const blocks = content.replace(/\r\n?/g, "\n").split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1) continue;
+
+    // VTT cue settings ("align:start position:10%") follow the end time
+    const [startText, rest] = lines[timingIndex].split("-->");
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(rest.trim().split(/\s+/)[0]);
+    if (start === null || end === null) continue;
+
+    const text = stripCueMarkup(lines.slice(timingIndex + 1).join(" "));
+    if (!text) continue;
+
+    // Rolling captions repeat the previous line; keep it once
+    const previous = segments[segments.length - 1];
+    if (previous && previous.text === text) {
+      previous.end = Math.max(previous.end, end);
+      continue;
+    }
+
+    segments.push({ start, end, text });
+  }
+
+  return segments;
+}
+
+/* ---------------- ENTRY POINT ---------------- */
+
+/**
+ * Turn an uploaded transcript into the same shape the transcription
+ * providers return. Plain text has no timings, so no segments.
+ */
+export function parseTranscriptFile(
+  fileName: string,
+  buffer: Buffer
+): TranscriptionResult {
+  // Strip a UTF-8 BOM, common in files exported on Windows
+  const content = buffer.toString("utf8").replace(/^\uFEFF/, "");
+  const format = detectTranscriptFormat(fileName, content);
+
+  if (format === "txt") {
+    const text = content.replace(/\r\n?/g, "\n").trim();
+    if (!text) throw new TranscriptFileError("The transcript is empty.");
+    return { text, segments: [] };
+  }
+
+  const segments = parseCues(content);
+
+  if (segments.length === 0) {
+    throw new TranscriptFileError(
+      `No captions found in this ${format.toUpperCase()} file.`
+    );
+  }
+
+  return {
+    text: segments.map((s) => s.text).join(" "),
+    segments,
+  };
+}
@@ -0,0 +1,209 @@
+import Groq from "groq-sdk";
+import OpenAI from "openai";
+import { getProviderLimiter } from "./rate-limit";
+
+// Each pipeline stage can run on its own model
+export type LLMStage = "summary" | "questions" | "classQuestions";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  stage: LLMStage;
+  messages: ChatMessage[];
+  temperature?: number;
+  // Abort the HTTP request when the job is cancelled
+  signal?: AbortSignal;
+}
+
+/**
+ * A chat completion backend asked to answer with a JSON object.
+ * Returns the raw message content; callers still parse defensively.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  completeJSON(request: CompletionRequest): Promise<string>;
+}
+
+type StageModels = Record<LLMStage, string>;
+
+function modelsFromEnv(fallback: string): StageModels {
+  const model = process.env.LLM_MODEL || fallback;
+
+  const questions = process.env.LLM_QUESTION_MODEL || model;
+
+  return {
+    summary: process.env.LLM_SUMMARY_MODEL || model,
+    questions,
+    classQuestions: questions,
+  };
+}
+
+/* ---------------- GROQ ---------------- */
+
+export class GroqProvider implements LLMProvider {
+  readonly name = "groq";
+  private client: Groq;
+
+  constructor(
+    private models: StageModels = modelsFromEnv("llama-3.1-8b-instant"),
+    apiKey = process.env.GROQ_API_KEY
+  ) {
+    // Retries go through the shared limiter instead
+    this.client = new Groq({ apiKey, maxRetries: 0 });
+  }
+
+  async completeJSON({
+    stage,
+    messages,
+    temperature = 0.2,
+    signal,
+  }: CompletionRequest) {
+    const completion = await this.client.chat.completions.create(
+      {
+        model: this.models[stage],
+        messages,
+        temperature,
+        response_format: { type: "json_object" },
+      },
+      { signal }
+    );
+
+    return completion.choices[0]?.message?.content ?? "";
+  }
+}
+
+/* ---------------- OPENAI COMPATIBLE ---------------- */
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself,
+ * or a local llama.cpp / Ollama server via LLM_BASE_URL.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+  private client: OpenAI;
+
+  constructor(
+    private models: StageModels = modelsFromEnv("gpt-4o-mini"),
+    baseURL = process.env.LLM_BASE_URL,
+    // Local servers ignore the key but the SDK insists on one
+    apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || "local"
+  ) {
+    this.client = new OpenAI({ apiKey, baseURL, maxRetries: 0 });
+  }
+
+  async completeJSON({
+    stage,
+    messages,
+    temperature = 0.2,
+    signal,
+  }: CompletionRequest) {
+    const completion = await this.client.chat.completions.create(
+      {
+        model: this.models[stage],
+        messages,
+        temperature,
+        response_format: { type: "json_object" },
+      },
+      { signal }
+    );
+
+    return completion.choices[0]?.message?.content ?? "";
+  }
+}
+
+/* ---------------- FAKE ---------------- */
+
+/**
+ * Deterministic stand-in for tests and offline development. Echoes
+ * the start of the transcript as the summary, writes one question
+ * per requested marks value and echoes student questions back.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = "fake";
+
+  async completeJSON({ stage, messages }: CompletionRequest) {
+    const prompt = messages[messages.length - 1]?.content ?? "";
+
+    if (stage === "summary") {
+      const transcript = prompt.split("Transcript:").pop()!.trim();
+      const excerpt = transcript.slice(0, 200);
+
+      return JSON.stringify({
+        summary: excerpt,
+        structuredNotes: [
+          { heading: "Transcript excerpt", points: excerpt ? [excerpt] : [] },
+        ],
+      });
+    }
+
+    if (stage === "classQuestions") {
+      const asked = Array.from(prompt.matchAll(/Student: (.+)/g), (m) => m[1]);
+
+      return JSON.stringify({
+        classQuestions: asked.map((question) => ({
+          question,
+          answer: "Sample answer",
+        })),
+      });
+    }
+
+    const marks = Array.from(prompt.matchAll(/^- (\d+) marks$/gm), (m) =>
+      Number(m[1])
+    );
+
+    return JSON.stringify({
+      qaPairs: marks.map((m) => ({
+        question: `Sample ${m} marks question`,
+        answer: `Sample ${m} marks answer`,
+        marks: m,
+      })),
+    });
+  }
+}
+
+/**
+ * Send every completion through the provider's process-wide limiter,
+ * so concurrent jobs share one request budget and retry policy.
+ */
+function withRateLimit(inner: LLMProvider): LLMProvider {
+  const limiter = getProviderLimiter(inner.name);
+
+  return {
+    name: inner.name,
+    completeJSON: (request) =>
+      limiter.run(() => inner.completeJSON(request), request.signal),
+  };
+}
+
+let provider: LLMProvider | undefined;
+
+/**
+ * Resolve the provider named by LLM_PROVIDER ("groq" by default,
+ * "openai" for any OpenAI-compatible endpoint, or "fake").
+ */
+export function getLLMProvider(): LLMProvider {
+  if (provider) return provider;
+
+  const name = (process.env.LLM_PROVIDER || "groq").toLowerCase();
+
+  switch (name) {
+    case "groq":
+      provider = new GroqProvider();
+      break;
+    case "openai":
+      provider = new OpenAICompatibleProvider();
+      break;
+    case "fake":
+      provider = new FakeLLMProvider();
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+  }
+
+  console.log(`🧠 LLM provider: ${provider.name}`);
+  provider = withRateLimit(provider);
+  return provider;
+}
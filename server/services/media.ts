@@ -0,0 +1,387 @@
+import { spawn } from "child_process";
+import * as fs from "fs";
+
+/* ---------------- TOOL RUNNER ---------------- */
+
+export type MediaTool = "ffmpeg" | "ffprobe";
+
+export type MediaToolFailure = "missing" | "exit" | "timeout" | "aborted";
+
+/**
+ * An ffmpeg/ffprobe run that didn't succeed. `stderr` holds what the
+ * tool printed, which is usually the only clue to what went wrong.
+ */
+export class MediaToolError extends Error {
+  constructor(
+    message: string,
+    public tool: MediaTool,
+    public kind: MediaToolFailure,
+    public stderr = "",
+    public exitCode: number | null = null
+  ) {
+    super(message);
+    this.name = "MediaToolError";
+  }
+}
+
+export interface RunOptions {
+  // Kill the process after this long, default MEDIA_TIMEOUT_MS
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface RunResult {
+  stdout: string;
+  stderr: string;
+}
+
+const TOOL_PATHS: Record<MediaTool, string> = {
+  ffmpeg: process.env.FFMPEG_PATH || "ffmpeg",
+  ffprobe: process.env.FFPROBE_PATH || "ffprobe",
+};
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.MEDIA_TIMEOUT_MS) || 10 * 60 * 1000;
+
+// silencedetect on a long lecture prints a lot; keep it all up to this
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+function lastLines(text: string, count = 5): string {
+  return text.trim().split("\n").slice(-count).join("\n");
+}
+
+/**
+ * Run ffmpeg or ffprobe with an argv array (no shell, so paths need no
+ * quoting), a timeout and optional cancellation.
+ */
+export function runMediaTool(
+  tool: MediaTool,
+  args: string[],
+  options: RunOptions = {}
+): Promise<RunResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      return reject(new MediaToolError(`${tool} was cancelled`, tool, "aborted"));
+    }
+
+    const child = spawn(TOOL_PATHS[tool], args, {
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    const stdout: Buffer[] = [];
+    let stdoutBytes = 0;
+    let stderr = "";
+    let failure: MediaToolFailure | null = null;
+    let settled = false;
+
+    const stop = (kind: MediaToolFailure) => {
+      failure = kind;
+      child.kill("SIGKILL");
+    };
+
+    const timer = setTimeout(() => stop("timeout"), timeoutMs);
+    const onAbort = () => stop("aborted");
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    const finish = (error: Error | null, result?: RunResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      if (error) reject(error);
+      else resolve(result!);
+    };
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      stdoutBytes += chunk.length;
+      if (stdoutBytes <= MAX_OUTPUT_BYTES) stdout.push(chunk);
+    });
+
+    child.stderr.setEncoding("utf8");
+    child.stderr.on("data", (chunk: string) => {
+      if (stderr.length < MAX_OUTPUT_BYTES) stderr += chunk;
+    });
+
+    child.on("error", (err: NodeJS.ErrnoException) => {
+      if (err.code === "ENOENT") {
+        return finish(
+          new MediaToolError(
+            `${tool} not found at "${TOOL_PATHS[tool]}". Install it or set ${tool.toUpperCase()}_PATH.`,
+            tool,
+            "missing"
+          )
+        );
+      }
+      finish(err);
+    });
+
+    child.on("close", (code) => {
+      if (failure === "timeout") {
+        return finish(
+          new MediaToolError(
+            `${tool} timed out after ${Math.round(timeoutMs / 1000)}s`,
+            tool,
+            "timeout",
+            stderr,
+            code
+          )
+        );
+      }
+
+      if (failure === "aborted") {
+        return finish(
+          new MediaToolError(`${tool} was cancelled`, tool, "aborted", stderr, code)
+        );
+      }
+
+      if (code !== 0) {
+        return finish(
+          new MediaToolError(
+            `${tool} exited with code ${code}: ${lastLines(stderr)}`,
+            tool,
+            "exit",
+            stderr,
+            code
+          )
+        );
+      }
+
+      finish(null, { stdout: Buffer.concat(stdout).toString("utf8"), stderr });
+    });
+  });
+}
+
+export function runFfmpeg(args: string[], options?: RunOptions) {
+  return runMediaTool("ffmpeg", ["-hide_banner", "-nostdin", ...args], options);
+}
+
+/**
+ * Run ffmpeg for a command that writes `outputPath`. A failed, timed
+ * out or cancelled run leaves a partial file behind, so it is removed.
+ */
+export async function runFfmpegToFile(
+  args: string[],
+  outputPath: string,
+  options?: RunOptions
+) {
+  try {
+    return await runFfmpeg(args, options);
+  } catch (err) {
+    await fs.promises.rm(outputPath, { force: true });
+    throw err;
+  }
+}
+
+export function runFfprobe(args: string[], options?: RunOptions) {
+  return runMediaTool("ffprobe", ["-hide_banner", ...args], options);
+}
+
+/**
+ * Fail fast at startup rather than on the first upload.
+ */
+export async function checkMediaTools(): Promise<string[]> {
+  const versions: string[] = [];
+
+  for (const tool of ["ffmpeg", "ffprobe"] as const) {
+    const { stdout } = await runMediaTool(tool, ["-version"], {
+      timeoutMs: 10_000,
+    });
+    versions.push(stdout.split("\n")[0]);
+  }
+
+  return versions;
+}
+
+/* ---------------- PROBING ---------------- */
+
+export interface MediaInfo {
+  // ffprobe format_name, e.g. "mov,mp4,m4a,3gp,3g2,mj2"
+  container: string;
+  audioCodec: string;
+  duration: number;
+  hasVideo: boolean;
+  // Extension to store the (audio only) recording under
+  audioFormat: string;
+  // Video or a container browsers can't play: re-encode before use
+  needsExtraction: boolean;
+}
+
+export type UnsupportedMediaReason = "corrupt" | "no_audio" | "empty";
+
+/**
+ * Raised when an upload is not media we can transcribe. Carries an
+ * HTTP status so routes can pass it straight to the client.
+ */
+export class UnsupportedMediaError extends Error {
+  readonly status = 415;
+
+  constructor(
+    message: string,
+    public reason: UnsupportedMediaReason
+  ) {
+    super(message);
+    this.name = "UnsupportedMediaError";
+  }
+}
+
+// Containers browsers can play back as-is, keyed by ffprobe format name
+const PLAYABLE_AUDIO_FORMATS: Record<string, string> = {
+  mp3: "mp3",
+  wav: "wav",
+  ogg: "ogg",
+  flac: "flac",
+  "matroska,webm": "webm",
+  "mov,mp4,m4a,3gp,3g2,mj2": "m4a",
+};
+
+// Last "time=00:01:02.50" progress stamp ffmpeg printed while decoding
+function parseDecodedTime(stderr: string): number {
+  const stamps = Array.from(
+    stderr.matchAll(/time=(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/g)
+  );
+  const last = stamps[stamps.length - 1];
+  if (!last) return 0;
+
+  const [, hours, minutes, seconds] = last;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+/**
+ * Length of the first audio track found by decoding it to the end. For
+ * files whose header has no duration, such as MediaRecorder WebM.
+ */
+async function measureAudioDuration(
+  inputPath: string,
+  signal?: AbortSignal
+): Promise<number> {
+  const { stderr } = await runFfmpeg(
+    ["-stats", "-i", inputPath, "-map", "0:a:0", "-f", "null", "-"],
+    { signal }
+  );
+
+  return parseDecodedTime(stderr);
+}
+
+/**
+ * Identify container and codecs with ffprobe instead of trusting the
+ * file name.
+ */
+export async function probeMedia(
+  inputPath: string,
+  signal?: AbortSignal
+): Promise<MediaInfo> {
+  let probe: any;
+
+  try {
+    const { stdout } = await runFfprobe(
+      ["-v", "error", "-show_format", "-show_streams", "-of", "json", inputPath],
+      { timeoutMs: 60_000, signal }
+    );
+    probe = JSON.parse(stdout);
+  } catch (err) {
+    // Timeouts, cancellation and a missing binary aren't the file's fault
+    if (err instanceof MediaToolError && err.kind !== "exit") throw err;
+
+    throw new UnsupportedMediaError(
+      "This file could not be read as audio or video. It may be corrupt or in an unsupported format.",
+      "corrupt"
+    );
+  }
+
+  const streams: any[] = probe.streams ?? [];
+  const audio = streams.find((s) => s.codec_type === "audio");
+  // Cover art in MP3/M4A shows up as a single-frame video stream
+  const hasVideo = streams.some(
+    (s) => s.codec_type === "video" && !s.disposition?.attached_pic
+  );
+
+  if (!audio) {
+    throw new UnsupportedMediaError(
+      "This file has no audio track to transcribe.",
+      "no_audio"
+    );
+  }
+
+  // MediaRecorder never writes a duration; try the stream, then decode
+  let duration =
+    parseFloat(probe.format?.duration) || parseFloat(audio.duration) || 0;
+  // Without one, later ffprobe calls and browser seeking fail too
+  const missingDuration = !(parseFloat(probe.format?.duration) > 0);
+
+  if (duration <= 0) {
+    try {
+      duration = await measureAudioDuration(inputPath, signal);
+    } catch (err) {
+      if (err instanceof MediaToolError && err.kind !== "exit") throw err;
+
+      throw new UnsupportedMediaError(
+        "This file could not be read as audio or video. It may be corrupt or in an unsupported format.",
+        "corrupt"
+      );
+    }
+  }
+
+  if (duration <= 0) {
+    throw new UnsupportedMediaError("This recording is empty.", "empty");
+  }
+
+  const container = probe.format?.format_name ?? "";
+  const playable =
+    hasVideo || missingDuration ? undefined : PLAYABLE_AUDIO_FORMATS[container];
+
+  return {
+    container,
+    audioCodec: audio.codec_name,
+    duration,
+    hasVideo,
+    // Anything else is re-encoded to AAC by extractAudioTrack
+    audioFormat: playable ?? "m4a",
+    needsExtraction: !playable,
+  };
+}
+
+/**
+ * Join the audio of several recordings, in order, into one AAC file.
+ * Parts may differ in codec, rate and channels, so each is resampled
+ * to a common format before the concat filter. Video is dropped.
+ */
+export async function concatAudioTracks(
+  inputPaths: string[],
+  outputPath: string,
+  signal?: AbortSignal
+): Promise<MediaInfo> {
+  const inputs = inputPaths.flatMap((p) => ["-i", p]);
+  const normalized = inputPaths
+    .map((_, i) => `[${i}:a:0]aresample=44100,aformat=sample_fmts=fltp:channel_layouts=mono[a${i}]`)
+    .join(";");
+  const labels = inputPaths.map((_, i) => `[a${i}]`).join("");
+  const filter = `${normalized};${labels}concat=n=${inputPaths.length}:v=0:a=1[out]`;
+
+  await runFfmpegToFile(
+    [...inputs, "-filter_complex", filter, "-map", "[out]", "-c:a", "aac", "-b:a", "96k", "-y", outputPath],
+    outputPath,
+    { signal }
+  );
+
+  return probeMedia(outputPath, signal);
+}
+
+/**
+ * Extract the first audio track into an AAC .m4a next to the input,
+ * dropping any video. Returns the path of the new file.
+ */
+export async function extractAudioTrack(
+  inputPath: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const outputPath = `${inputPath}.m4a`;
+
+  await runFfmpegToFile(
+    ["-i", inputPath, "-vn", "-map", "0:a:0", "-c:a", "aac", "-b:a", "96k", "-y", outputPath],
+    outputPath,
+    { signal }
+  );
+
+  return outputPath;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { planKeptRanges, toOriginalTime } from "./preprocess";
+
+describe("planKeptRanges", () => {
+  it("keeps the whole recording when there is no silence", () => {
+    expect(planKeptRanges(60, [], 0.5)).toEqual([
+      { processedStart: 0, originalStart: 0, length: 60 },
+    ]);
+  });
+
+  it("cuts a pause down to half the kept time on each side", () => {
+    expect(planKeptRanges(60, [{ start: 20, end: 30 }], 1)).toEqual([
+      { processedStart: 0, originalStart: 0, length: 20.5 },
+      { processedStart: 20.5, originalStart: 29.5, length: 30.5 },
+    ]);
+  });
+
+  it("trims leading and trailing silence", () => {
+    expect(
+      planKeptRanges(
+        60,
+        [
+          { start: 0, end: 5 },
+          { start: 55, end: 60 },
+        ],
+        1
+      )
+    ).toEqual([
+      { processedStart: 0, originalStart: 0, length: 0.5 },
+      { processedStart: 0.5, originalStart: 4.5, length: 51 },
+      { processedStart: 51.5, originalStart: 59.5, length: 0.5 },
+    ]);
+  });
+
+  it("keeps the speech between two pauses close together", () => {
+    expect(
+      planKeptRanges(
+        40,
+        [
+          { start: 10, end: 14 },
+          { start: 15, end: 19 },
+        ],
+        1
+      )
+    ).toEqual([
+      { processedStart: 0, originalStart: 0, length: 10.5 },
+      { processedStart: 10.5, originalStart: 13.5, length: 2 },
+      { processedStart: 12.5, originalStart: 18.5, length: 21.5 },
+    ]);
+  });
+
+  it("skips pauses too short to cut or inside the last cut", () => {
+    expect(
+      planKeptRanges(
+        40,
+        [
+          { start: 5, end: 5.8 },
+          { start: 10, end: 20 },
+          { start: 12, end: 18 },
+        ],
+        1
+      )
+    ).toEqual([
+      { processedStart: 0, originalStart: 0, length: 10.5 },
+      { processedStart: 10.5, originalStart: 19.5, length: 20.5 },
+    ]);
+  });
+});
+
+describe("toOriginalTime", () => {
+  const map = [
+    { processedStart: 0, originalStart: 0, length: 10 },
+    { processedStart: 10, originalStart: 14, length: 5 },
+  ];
+
+  it("leaves times alone without a map", () => {
+    expect(toOriginalTime([], 42.5)).toBe(42.5);
+  });
+
+  it("maps times inside a kept range", () => {
+    expect(toOriginalTime(map, 0)).toBe(0);
+    expect(toOriginalTime(map, 9.5)).toBe(9.5);
+    expect(toOriginalTime(map, 12)).toBe(16);
+  });
+
+  it("puts a boundary at the start of the later range", () => {
+    expect(toOriginalTime(map, 10)).toBe(14);
+    expect(toOriginalTime(map, 15)).toBe(19);
+  });
+
+  it("clamps times past the end of the processed file", () => {
+    expect(toOriginalTime(map, 30)).toBe(19);
+  });
+});
@@ -0,0 +1,188 @@
+import type { TranscriptSegment } from "@shared/schema";
+import { detectSilences, getAudioDuration } from "./audio";
+import { runFfmpegToFile } from "./media";
+
+export interface PreprocessOptions {
+  // EBU R128 loudness normalization for quiet rooms
+  normalize: boolean;
+  // Highpass out rumble, then FFT denoise the hiss
+  denoise: boolean;
+  // Cut pauses longer than trimMinSeconds down to trimKeepSeconds
+  trimSilence: boolean;
+  trimMinSeconds: number;
+  trimKeepSeconds: number;
+  trimNoiseDb: number;
+}
+
+/**
+ * A stretch of the processed file and where it came from in the
+ * original recording. Stretches are contiguous in processed time.
+ */
+export interface TimeMapEntry {
+  processedStart: number;
+  originalStart: number;
+  length: number;
+}
+
+export type TimeMap = TimeMapEntry[];
+
+export interface PreparedAudio {
+  path: string;
+  timeMap: TimeMap;
+  // Seconds of silence cut from the original
+  removedSeconds: number;
+}
+
+function flag(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined || value === "") return fallback;
+  return value === "true" || value === "1";
+}
+
+export function preprocessOptionsFromEnv(): PreprocessOptions {
+  return {
+    normalize: flag(process.env.AUDIO_NORMALIZE, true),
+    denoise: flag(process.env.AUDIO_DENOISE, false),
+    trimSilence: flag(process.env.AUDIO_TRIM_SILENCE, true),
+    trimMinSeconds: Number(process.env.TRIM_SILENCE_MIN_SECONDS) || 3,
+    trimKeepSeconds: Number(process.env.TRIM_SILENCE_KEEP_SECONDS) || 0.5,
+    trimNoiseDb: Number(process.env.SILENCE_NOISE_DB) || -30,
+  };
+}
+
+/* ---------------- TIME MAP ---------------- */
+
+/**
+ * Turn the long pauses into the stretches to keep. Each pause keeps
+ * half of `keepSeconds` on either side so speech isn't clipped.
+ */
+export function planKeptRanges(
+  duration: number,
+  silences: { start: number; end: number }[],
+  keepSeconds: number
+): TimeMap {
+  const map: TimeMap = [];
+  let originalStart = 0;
+  let processed = 0;
+
+  for (const silence of silences) {
+    const cutStart = silence.start + keepSeconds / 2;
+    const cutEnd = silence.end - keepSeconds / 2;
+    if (cutEnd <= cutStart || cutStart <= originalStart) continue;
+
+    const length = cutStart - originalStart;
+    map.push({ processedStart: processed, originalStart, length });
+    processed += length;
+    originalStart = cutEnd;
+  }
+
+  if (duration > originalStart) {
+    map.push({
+      processedStart: processed,
+      originalStart,
+      length: duration - originalStart,
+    });
+  }
+
+  return map;
+}
+
+/**
+ * Translate a time in the processed file back into the original one.
+ */
+export function toOriginalTime(map: TimeMap, seconds: number): number {
+  if (!map.length) return seconds;
+
+  let entry = map[0];
+  for (const candidate of map) {
+    if (candidate.processedStart > seconds) break;
+    entry = candidate;
+  }
+
+  const offset = Math.min(
+    Math.max(0, seconds - entry.processedStart),
+    entry.length
+  );
+
+  return Math.round((entry.originalStart + offset) * 1000) / 1000;
+}
+
+export function mapSegmentsToOriginal(
+  segments: TranscriptSegment[],
+  map: TimeMap
+): TranscriptSegment[] {
+  return segments.map((segment) => ({
+    ...segment,
+    start: toOriginalTime(map, segment.start),
+    end: toOriginalTime(map, segment.end),
+  }));
+}
+
+/* ---------------- FILTERING ---------------- */
+
+/**
+ * Clean up a recording before it is split for transcription. Returns
+ * null when every step is turned off, so callers use the original.
+ * The output is 16 kHz mono WAV, which is all transcription needs;
+ * playback keeps using the untouched upload.
+ */
+export async function preprocessAudio(
+  inputPath: string,
+  options: PreprocessOptions = preprocessOptionsFromEnv(),
+  signal?: AbortSignal
+): Promise<PreparedAudio | null> {
+  if (!options.normalize && !options.denoise && !options.trimSilence) {
+    return null;
+  }
+
+  const duration = await getAudioDuration(inputPath, signal);
+  const filters: string[] = [];
+  let timeMap: TimeMap = [
+    { processedStart: 0, originalStart: 0, length: duration },
+  ];
+
+  if (options.trimSilence) {
+    const silences = await detectSilences(
+      inputPath,
+      options.trimNoiseDb,
+      options.trimMinSeconds,
+      signal
+    );
+    timeMap = planKeptRanges(duration, silences, options.trimKeepSeconds);
+
+    if (timeMap.length > 1) {
+      const keep = timeMap
+        .map(
+          (e) =>
+            `between(t,${e.originalStart.toFixed(3)},${(e.originalStart + e.length).toFixed(3)})`
+        )
+        .join("+");
+      // Quoted for the filtergraph parser, which splits on commas
+      filters.push(`aselect='${keep}'`, "asetpts=N/SR/TB");
+    }
+  }
+
+  if (options.denoise) {
+    filters.push("highpass=f=80", "afftdn=nf=-25");
+  }
+
+  if (options.normalize) {
+    filters.push("loudnorm=I=-16:TP=-1.5:LRA=11");
+  }
+
+  const outputPath = `${inputPath}.prepared.wav`;
+  const filterArgs = filters.length ? ["-af", filters.join(",")] : [];
+
+  await runFfmpegToFile(
+    ["-i", inputPath, "-vn", ...filterArgs, "-ar", "16000", "-ac", "1", "-y", outputPath],
+    outputPath,
+    { signal }
+  );
+
+  const kept = timeMap.reduce((sum, e) => sum + e.length, 0);
+
+  return {
+    path: outputPath,
+    timeMap,
+    removedSeconds: Math.max(0, Math.round(duration - kept)),
+  };
+}
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  isTransientError,
+  ProviderLimiter,
+  retryAfterMs,
+  type ProviderLimits,
+} from "./rate-limit";
+
+const limits: ProviderLimits = {
+  concurrency: 2,
+  requestsPerMinute: 0,
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+};
+
+// A promise the test settles by hand
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+function rateLimited(retryAfter: string) {
+  return Object.assign(new Error("Too many requests"), {
+    status: 429,
+    headers: { "retry-after": retryAfter },
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("retryAfterMs", () => {
+  it("reads retry-after in seconds", () => {
+    expect(retryAfterMs(rateLimited("3"))).toBe(3000);
+  });
+
+  it("reads retry-after as an HTTP date", () => {
+    expect(retryAfterMs(rateLimited("Thu, 01 Jan 2026 00:00:30 GMT"))).toBe(
+      30_000
+    );
+    expect(retryAfterMs(rateLimited("Wed, 31 Dec 2025 23:59:00 GMT"))).toBe(0);
+  });
+
+  it("prefers retry-after-ms, from a Headers object too", () => {
+    const err = {
+      response: {
+        headers: new Headers({ "retry-after-ms": "1500", "retry-after": "9" }),
+      },
+    };
+
+    expect(retryAfterMs(err)).toBe(1500);
+  });
+
+  it("has nothing without a usable header", () => {
+    expect(retryAfterMs(new Error("boom"))).toBeNull();
+    expect(retryAfterMs(rateLimited("soon"))).toBeNull();
+  });
+});
+
+describe("isTransientError", () => {
+  it("retries rate limits and server errors", () => {
+    for (const status of [429, 500, 502, 503, 504]) {
+      expect(isTransientError({ status })).toBe(true);
+    }
+  });
+
+  it("gives up on other client errors", () => {
+    for (const status of [400, 401, 403, 404, 422]) {
+      expect(isTransientError({ status })).toBe(false);
+    }
+  });
+
+  it("retries dropped connections and status-less provider messages", () => {
+    expect(isTransientError({ code: "ECONNRESET" })).toBe(true);
+    expect(isTransientError({ cause: { code: "ETIMEDOUT" } })).toBe(true);
+    expect(isTransientError(new Error("HTTP Error: 503 Service Unavailable"))).toBe(
+      true
+    );
+    expect(isTransientError(new Error("Invalid API key"))).toBe(false);
+  });
+});
+
+describe("ProviderLimiter", () => {
+  it("never runs more requests at once than its concurrency", async () => {
+    const limiter = new ProviderLimiter("test", limits);
+    const gates = [deferred(), deferred(), deferred()];
+    let running = 0;
+    let most = 0;
+
+    const runs = gates.map((gate) =>
+      limiter.run(async () => {
+        most = Math.max(most, ++running);
+        await gate.promise;
+        running--;
+      })
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(running).toBe(2);
+
+    gates.forEach((gate) => gate.resolve());
+    await Promise.all(runs);
+    expect(most).toBe(2);
+  });
+
+  it("spaces request starts to the per-minute budget", async () => {
+    const limiter = new ProviderLimiter("test", {
+      ...limits,
+      requestsPerMinute: 60,
+    });
+    const task = vi.fn(async () => "ok");
+
+    const runs = [limiter.run(task), limiter.run(task)];
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(2);
+    await Promise.all(runs);
+  });
+
+  it("waits as long as retry-after asks, for every caller", async () => {
+    const limiter = new ProviderLimiter("test", limits);
+    const task = vi
+      .fn()
+      .mockRejectedValueOnce(rateLimited("3"))
+      .mockResolvedValue("ok");
+
+    const first = limiter.run(task);
+    await vi.advanceTimersByTimeAsync(0);
+    const second = limiter.run(task);
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(first).resolves.toBe("ok");
+    await expect(second).resolves.toBe("ok");
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry a request the provider refused", async () => {
+    const limiter = new ProviderLimiter("test", limits);
+    const task = vi.fn().mockRejectedValue(
+      Object.assign(new Error("Bad request"), { status: 400 })
+    );
+
+    await expect(limiter.run(task)).rejects.toThrow("Bad request");
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const limiter = new ProviderLimiter("test", limits);
+    const task = vi.fn().mockRejectedValue(rateLimited("1"));
+
+    const run = limiter.run(task);
+    const settled = expect(run).rejects.toThrow("Too many requests");
+    await vi.advanceTimersByTimeAsync(2000);
+
+    await settled;
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,235 @@
+import pLimit, { type LimitFunction } from "p-limit";
+
+export interface ProviderLimits {
+  // Requests in flight at once, across every job in the process
+  concurrency: number;
+  // Request starts per minute; 0 for no limit
+  requestsPerMinute: number;
+  // Retries after the first attempt for rate limits and transient errors
+  maxRetries: number;
+  // Backoff grows from baseDelayMs, doubling per attempt, up to maxDelayMs
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_LIMITS: ProviderLimits = {
+  concurrency: 4,
+  requestsPerMinute: 0,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+};
+
+// Starting points per provider; every field can be overridden from env
+const PROVIDER_DEFAULTS: Record<string, Partial<ProviderLimits>> = {
+  assemblyai: { concurrency: 5 },
+  // Local CPU; each run already uses every core
+  whisper: { concurrency: 1, maxRetries: 0 },
+  // Free tier allows 30 requests a minute
+  groq: { concurrency: 4, requestsPerMinute: 30 },
+  openai: { concurrency: 4 },
+  fake: { concurrency: Infinity, maxRetries: 0 },
+};
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") return fallback;
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Limits for a provider, e.g. GROQ_CONCURRENCY, GROQ_REQUESTS_PER_MINUTE,
+ * GROQ_MAX_RETRIES, GROQ_RETRY_BASE_MS and GROQ_RETRY_MAX_MS.
+ */
+export function providerLimitsFromEnv(provider: string): ProviderLimits {
+  const defaults = { ...DEFAULT_LIMITS, ...PROVIDER_DEFAULTS[provider] };
+  const prefix = provider.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+
+  return {
+    concurrency:
+      numberFromEnv(`${prefix}_CONCURRENCY`, defaults.concurrency) || 1,
+    requestsPerMinute: numberFromEnv(
+      `${prefix}_REQUESTS_PER_MINUTE`,
+      defaults.requestsPerMinute
+    ),
+    maxRetries: numberFromEnv(`${prefix}_MAX_RETRIES`, defaults.maxRetries),
+    baseDelayMs: numberFromEnv(`${prefix}_RETRY_BASE_MS`, defaults.baseDelayMs),
+    maxDelayMs: numberFromEnv(`${prefix}_RETRY_MAX_MS`, defaults.maxDelayMs),
+  };
+}
+
+/* ---------------- ERROR CLASSIFICATION ---------------- */
+
+const TRANSIENT_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+
+const TRANSIENT_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+// SDKs hand back a fetch Headers object or a plain record
+function readHeader(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof headers.get === "function") return headers.get(name) ?? undefined;
+  return headers[name] ?? headers[name.toLowerCase()];
+}
+
+/**
+ * How long the provider asked us to wait, from `retry-after-ms` or
+ * `retry-after` (seconds or an HTTP date).
+ */
+export function retryAfterMs(err: any): number | null {
+  const headers = err?.headers ?? err?.response?.headers;
+
+  const ms = Number(readHeader(headers, "retry-after-ms"));
+  if (ms > 0) return ms;
+
+  const value = readHeader(headers, "retry-after");
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Rate limits, server errors and dropped connections are worth another
+ * try; bad requests and auth failures are not. Some SDKs (AssemblyAI)
+ * only keep the response text, so the message is checked as well.
+ */
+export function isTransientError(err: any): boolean {
+  const status = err?.status ?? err?.statusCode ?? err?.response?.status;
+  if (typeof status === "number") return TRANSIENT_STATUSES.has(status);
+
+  const code = err?.code ?? err?.cause?.code;
+  if (code && TRANSIENT_CODES.has(code)) return true;
+
+  const message = String(err?.message ?? "");
+  return /rate limit|too many requests|fetch failed|socket hang up|HTTP Error: (429|5\d\d)/i.test(
+    message
+  );
+}
+
+/* ---------------- LIMITER ---------------- */
+
+// Resolves after `ms`, or rejects with the abort reason as soon as the
+// signal fires
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Shared gate in front of one external provider: caps concurrent
+ * requests, spaces request starts to the per-minute budget, and retries
+ * transient failures with exponential backoff and full jitter. A
+ * retry-after from the provider pauses every caller, not just the one
+ * that was told.
+ */
+export class ProviderLimiter {
+  private readonly slots: LimitFunction;
+  private nextStartAt = 0;
+  private pausedUntil = 0;
+
+  constructor(
+    readonly provider: string,
+    readonly limits: ProviderLimits
+  ) {
+    this.slots = pLimit(limits.concurrency);
+  }
+
+  private async waitForTurn(signal?: AbortSignal) {
+    const { requestsPerMinute } = this.limits;
+
+    // Reserve a start time before sleeping so callers queue up in order
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextStartAt, this.pausedUntil);
+    if (requestsPerMinute > 0) {
+      this.nextStartAt = startAt + 60_000 / requestsPerMinute;
+    }
+
+    if (startAt > now) await sleep(startAt - now, signal);
+
+    // A retry-after may have arrived while we slept
+    const paused = this.pausedUntil - Date.now();
+    if (paused > 0) await sleep(paused, signal);
+  }
+
+  private backoff(attempt: number): number {
+    const { baseDelayMs, maxDelayMs } = this.limits;
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  /**
+   * Run `task` when the budget allows. An aborted signal stops waiting
+   * for a slot or a retry, and a task that failed because of it is not
+   * retried.
+   */
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.slots(async () => {
+          signal?.throwIfAborted();
+          await this.waitForTurn(signal);
+          return task();
+        });
+      } catch (err: any) {
+        if (signal?.aborted) throw signal.reason;
+        if (attempt >= this.limits.maxRetries || !isTransientError(err)) {
+          throw err;
+        }
+
+        const requested = retryAfterMs(err);
+        if (requested !== null) {
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + requested);
+        }
+
+        // The slot is free while we wait, so other work keeps moving
+        const delay = requested ?? this.backoff(attempt);
+        console.warn(
+          `⏳ ${this.provider} request failed (${err.status ?? err.message}), retry ${attempt + 1}/${this.limits.maxRetries} in ${delay}ms`
+        );
+        await sleep(delay, signal);
+      }
+    }
+  }
+}
+
+const limiters = new Map<string, ProviderLimiter>();
+
+/**
+ * The process-wide limiter for a provider, so concurrent jobs share
+ * one budget instead of each getting their own.
+ */
+export function getProviderLimiter(provider: string): ProviderLimiter {
+  let limiter = limiters.get(provider);
+
+  if (!limiter) {
+    limiter = new ProviderLimiter(provider, providerLimitsFromEnv(provider));
+    limiters.set(provider, limiter);
+  }
+
+  return limiter;
+}
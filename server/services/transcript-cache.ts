@@ -0,0 +1,75 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import type { CachedTranscript, ChunkBoundary } from "@shared/schema";
+import { storage } from "../storage";
+import { getTranscriptionProvider, type TranscriptionResult } from "./transcription";
+
+// Set TRANSCRIPT_CACHE=off to always transcribe from scratch
+const CACHE_ENABLED = process.env.TRANSCRIPT_CACHE !== "off";
+
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+
+  return hash.digest("hex");
+}
+
+/**
+ * Cache key for audio with the given content hash. `settings` must hold
+ * everything besides the provider that changes the transcript, e.g.
+ * diarization or how the file was cleaned up and split.
+ */
+export function transcriptCacheKey(
+  kind: "file" | "chunk",
+  contentHash: string,
+  settings: Record<string, unknown>
+): string {
+  const material = JSON.stringify({
+    kind,
+    contentHash,
+    provider: getTranscriptionProvider().fingerprint,
+    settings,
+  });
+
+  return createHash("sha256").update(material).digest("hex");
+}
+
+export function chunkCacheKey(
+  buffer: Buffer,
+  settings: Record<string, unknown>
+): string {
+  const hash = createHash("sha256").update(buffer).digest("hex");
+  return transcriptCacheKey("chunk", hash, settings);
+}
+
+export async function readCachedTranscript(
+  key: string
+): Promise<CachedTranscript | undefined> {
+  if (!CACHE_ENABLED) return undefined;
+  return storage.getCachedTranscript(key);
+}
+
+/**
+ * Best effort: a failed write only costs a future re-transcription.
+ */
+export async function writeCachedTranscript(
+  key: string,
+  result: TranscriptionResult,
+  chunks: ChunkBoundary[] = []
+): Promise<void> {
+  if (!CACHE_ENABLED) return;
+
+  try {
+    await storage.saveCachedTranscript({
+      key,
+      transcription: result.text,
+      segments: result.segments,
+      chunks,
+    });
+  } catch (err) {
+    console.error("⚠️ Failed to cache transcript:", err);
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import type { ChunkBoundary } from "@shared/schema";
+import {
+  dedupeSeam,
+  mergeChunkTranscripts,
+  type TranscriptionResult,
+} from "./transcription";
+
+describe("dedupeSeam", () => {
+  it("drops the words the next chunk repeats", () => {
+    expect(
+      dedupeSeam("so the answer is x squared", "answer is x squared. Write it")
+    ).toBe("Write it");
+  });
+
+  it("ignores case and punctuation when matching", () => {
+    expect(dedupeSeam("Energy, from Glucose.", "energy from glucose then")).toBe(
+      "then"
+    );
+  });
+
+  it("leaves a single repeated word alone", () => {
+    expect(dedupeSeam("take the", "the next step")).toBe("the next step");
+  });
+
+  it("leaves text with no repeat unchanged", () => {
+    expect(dedupeSeam("first part", "second part")).toBe("second part");
+  });
+});
+
+describe("mergeChunkTranscripts", () => {
+  const hard: ChunkBoundary = { start: 0, end: 11.5, cut: "hard", overlap: 1.5 };
+  const silence: ChunkBoundary = { start: 0, end: 10, cut: "silence", overlap: 0 };
+  const last: ChunkBoundary = { start: 10, end: 20, cut: "end", overlap: 0 };
+
+  function result(text: string, segments = []): TranscriptionResult {
+    return { text, segments };
+  }
+
+  it("keeps a repeat the lecturer made across a silence cut", () => {
+    const merged = mergeChunkTranscripts([
+      { chunk: silence, result: result("so the answer is x squared.") },
+      {
+        chunk: last,
+        result: result("The answer is x squared. Write that down."),
+      },
+    ]);
+
+    expect(merged.text).toBe(
+      "so the answer is x squared.\n\nThe answer is x squared. Write that down."
+    );
+  });
+
+  it("drops what an overlapping cut heard twice", () => {
+    const merged = mergeChunkTranscripts([
+      { chunk: hard, result: result("so the answer is x squared") },
+      { chunk: last, result: result("is x squared. Write that down.") },
+    ]);
+
+    expect(merged.text).toBe("so the answer is x squared\n\nWrite that down.");
+  });
+
+  it("leaves the past-the-cut region to the next chunk", () => {
+    const merged = mergeChunkTranscripts([
+      {
+        chunk: hard,
+        result: {
+          text: "",
+          segments: [
+            { start: 0, end: 9, text: "Cells make energy." },
+            { start: 10.2, end: 11.4, text: "Mitochondria" },
+          ],
+        },
+      },
+      {
+        chunk: last,
+        result: {
+          text: "",
+          segments: [{ start: 10.1, end: 12, text: "Mitochondria do it." }],
+        },
+      },
+    ]);
+
+    expect(merged.segments.map((s) => s.text)).toEqual([
+      "Cells make energy.",
+      "Mitochondria do it.",
+    ]);
+    expect(merged.text).toBe("Cells make energy.\n\nMitochondria do it.");
+  });
+
+  it("trims the segments the same way as the text", () => {
+    const merged = mergeChunkTranscripts([
+      {
+        chunk: hard,
+        result: {
+          text: "",
+          segments: [{ start: 0, end: 9, text: "so the answer is x squared" }],
+        },
+      },
+      {
+        chunk: last,
+        result: {
+          text: "",
+          segments: [
+            { start: 9.6, end: 10.2, text: "is x" },
+            { start: 10.2, end: 12, text: "squared. Write that down." },
+          ],
+        },
+      },
+    ]);
+
+    expect(merged.text).toBe(
+      "so the answer is x squared\n\nWrite that down."
+    );
+    expect(merged.segments).toEqual([
+      { start: 0, end: 9, text: "so the answer is x squared" },
+      { start: 10.2, end: 12, text: "Write that down." },
+    ]);
+  });
+});
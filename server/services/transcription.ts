@@ -1,22 +1,221 @@
-import { AssemblyAI } from "assemblyai";
+import type { ChunkBoundary, TranscriptSegment } from "@shared/schema";
+import { AssemblyAIProvider } from "./assemblyai";
+import { getProviderLimiter } from "./rate-limit";
+import { WhisperProvider } from "./whisper";
 
-// ✅ Create client INSIDE this file
-const client = new AssemblyAI({
-  apiKey: process.env.ASSEMBLYAI_API_KEY!,
-});
+export interface TranscriptionResult {
+  text: string;
+  // Relative to the start of the chunk that was transcribed
+  segments: TranscriptSegment[];
+}
+
+export interface TranscriptionOptions {
+  // Ask for diarization; segments then carry a per-chunk speaker label
+  speakerLabels?: boolean;
+  // Stop the request (or local process) when the job is cancelled
+  signal?: AbortSignal;
+}
+
+/**
+ * A speech-to-text backend. Input is a single 16kHz mono WAV chunk
+ * as produced by splitAudioIntoChunks.
+ */
+export interface TranscriptionProvider {
+  readonly name: string;
+  // Model and settings that change the output; part of cache keys
+  readonly fingerprint: string;
+  transcribe(
+    audioBuffer: Buffer,
+    options?: TranscriptionOptions
+  ): Promise<TranscriptionResult>;
+}
+
+/* ---------------- WORD GROUPING ---------------- */
+
+const MAX_SEGMENT_SECONDS = 15;
+const MAX_WORD_GAP_SECONDS = 1;
+
+/**
+ * Group word-level timings into sentence-sized segments, breaking on
+ * sentence punctuation, long pauses or overly long runs.
+ */
+export function groupWordsIntoSegments(
+  words: TranscriptSegment[]
+): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let current: TranscriptSegment | null = null;
+
+  for (const word of words) {
+    if (
+      current &&
+      (word.start - current.end > MAX_WORD_GAP_SECONDS ||
+        word.end - current.start > MAX_SEGMENT_SECONDS)
+    ) {
+      segments.push(current);
+      current = null;
+    }
+
+    if (!current) {
+      current = { ...word };
+    } else {
+      current.text += ` ${word.text}`;
+      current.end = word.end;
+    }
+
+    if (/[.?!]$/.test(word.text)) {
+      segments.push(current);
+      current = null;
+    }
+  }
+
+  if (current) segments.push(current);
+  return segments;
+}
+
+/* ---------------- CHUNK MERGING ---------------- */
+
+// Longest run of repeated words looked for at a seam
+const MAX_SEAM_WORDS = 30;
+// Slack when matching a segment against the previous chunk's last one
+const SEAM_TOLERANCE_SECONDS = 0.25;
+
+const normalizeWord = (w: string) => w.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+// How many words at the start of `next` repeat the end of `previous`.
+// At least two must match so a single common word is left alone.
+function seamRepeatLength(previous: string, next: string): number {
+  const prevWords = previous.split(/\s+/).filter(Boolean).map(normalizeWord);
+  const nextWords = next.split(/\s+/).filter(Boolean).map(normalizeWord);
+
+  const max = Math.min(MAX_SEAM_WORDS, prevWords.length, nextWords.length);
+
+  for (let k = max; k >= 2; k--) {
+    const tail = prevWords.slice(prevWords.length - k);
+    if (tail.every((w, i) => w === nextWords[i])) return k;
+  }
+
+  return 0;
+}
+
+/**
+ * Drop words at the start of `next` that repeat the end of `previous`
+ * (what an overlapping cut transcribes twice).
+ */
+export function dedupeSeam(previous: string, next: string): string {
+  const repeated = seamRepeatLength(previous, next);
+  if (repeated === 0) return next;
+
+  return next.split(/\s+/).filter(Boolean).slice(repeated).join(" ");
+}
+
+// The same words dropped from segments, so text and segments agree
+function dropLeadingWords(
+  segments: TranscriptSegment[],
+  count: number
+): TranscriptSegment[] {
+  const kept: TranscriptSegment[] = [];
+
+  for (const segment of segments) {
+    const words = segment.text.split(/\s+/).filter(Boolean);
+    if (count >= words.length) {
+      count -= words.length;
+      continue;
+    }
+
+    kept.push(
+      count > 0 ? { ...segment, text: words.slice(count).join(" ") } : segment
+    );
+    count = 0;
+  }
+
+  return kept;
+}
+
+/**
+ * Join per-chunk results (segments already shifted to absolute time)
+ * into one transcript. Where chunks overlap, the region past a cut
+ * belongs to the next chunk; segments the next chunk repeats from a
+ * passage straddling the cut are dropped, then any leftover repeated
+ * words at the seam. Silence cuts record nothing twice, so a repeat
+ * there is the lecturer's own and stays.
+ */
+export function mergeChunkTranscripts(
+  parts: { chunk: ChunkBoundary; result: TranscriptionResult }[]
+): TranscriptionResult {
+  const texts: string[] = [];
+  const segments: TranscriptSegment[] = [];
+  let previousEnd = -Infinity;
+  let previousOverlap = 0;
+
+  for (const { chunk, result } of parts) {
+    const cut = chunk.end - chunk.overlap;
+    let text = result.text;
+    let kept: TranscriptSegment[] = [];
+
+    if (result.segments.length > 0) {
+      kept = result.segments.filter(
+        (s) =>
+          s.start < cut && s.end > previousEnd + SEAM_TOLERANCE_SECONDS
+      );
+
+      text = kept.map((s) => s.text).join(" ");
+      if (kept.length > 0) previousEnd = kept[kept.length - 1].end;
+    }
+
+    if (texts.length > 0 && previousOverlap > 0) {
+      const repeated = seamRepeatLength(texts[texts.length - 1], text);
+      if (repeated > 0) {
+        text = dedupeSeam(texts[texts.length - 1], text);
+        kept = dropLeadingWords(kept, repeated);
+      }
+    }
+
+    segments.push(...kept);
+    if (text.trim()) texts.push(text.trim());
+    previousOverlap = chunk.overlap;
+  }
+
+  return { text: texts.join("\n\n").trim(), segments };
+}
+
+let provider: TranscriptionProvider | undefined;
 
 /**
- * Transcribe an audio buffer using AssemblyAI
+ * Resolve the provider named by TRANSCRIPTION_PROVIDER
+ * ("assemblyai" by default, or "whisper" for local CPU transcription).
  */
-export async function transcribeAudio(audioBuffer: Buffer): Promise<string> {
-  // Upload buffer → returns STRING URL
-  const audioUrl = await client.files.upload(audioBuffer);
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (provider) return provider;
 
-  // Create transcript
-  const transcript = await client.transcripts.create({
-    audio_url: audioUrl,
-    language_detection: true,
-  });
+  const name = (process.env.TRANSCRIPTION_PROVIDER || "assemblyai").toLowerCase();
+
+  switch (name) {
+    case "assemblyai":
+      provider = new AssemblyAIProvider();
+      break;
+    case "whisper":
+      provider = new WhisperProvider();
+      break;
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${name}"`);
+  }
+
+  console.log(`🎙️ Transcription provider: ${provider.name}`);
+  return provider;
+}
+
+/**
+ * Transcribe an audio buffer with the configured provider, through the
+ * provider's shared rate limiter
+ */
+export async function transcribeAudio(
+  audioBuffer: Buffer,
+  options: TranscriptionOptions = {}
+): Promise<TranscriptionResult> {
+  const provider = getTranscriptionProvider();
 
-  return transcript.text ?? "";
+  return getProviderLimiter(provider.name).run(
+    () => provider.transcribe(audioBuffer, options),
+    options.signal
+  );
 }
@@ -0,0 +1,179 @@
+import { randomUUID } from "crypto";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+// Partial uploads live here until a job takes them over
+export const UPLOAD_DIR = path.resolve(
+  process.env.UPLOAD_DIR || path.join(os.tmpdir(), "lecture-uploads")
+);
+
+export const MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+
+// Abandoned uploads are swept after a day
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface UploadSession {
+  id: string;
+  fileName: string;
+  size: number;
+  // Bytes received so far, always read back from disk
+  offset: number;
+  createdAt: number;
+}
+
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+// One PATCH at a time per upload, or offsets get interleaved
+const activeWrites = new Set<string>();
+
+const metaPath = (id: string) => path.join(UPLOAD_DIR, `${id}.json`);
+export const uploadDataPath = (id: string) => path.join(UPLOAD_DIR, `${id}.part`);
+
+function assertValidId(id: string) {
+  if (!/^[0-9a-f-]{36}$/.test(id)) {
+    throw new UploadError("Upload not found", 404);
+  }
+}
+
+async function sweepExpiredUploads() {
+  const cutoff = Date.now() - UPLOAD_TTL_MS;
+  const entries = await fs.promises.readdir(UPLOAD_DIR).catch(() => []);
+
+  for (const entry of entries) {
+    const file = path.join(UPLOAD_DIR, entry);
+    const stat = await fs.promises.stat(file).catch(() => null);
+
+    if (stat && stat.mtimeMs < cutoff) {
+      await fs.promises.rm(file, { force: true });
+    }
+  }
+}
+
+export async function createUpload(
+  fileName: string,
+  size: number
+): Promise<UploadSession> {
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new UploadError("Upload size must be a positive number of bytes", 400);
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    throw new UploadError("File is larger than the 200MB limit", 413);
+  }
+
+  await fs.promises.mkdir(UPLOAD_DIR, { recursive: true });
+  await sweepExpiredUploads();
+
+  const session = {
+    id: randomUUID(),
+    fileName,
+    size,
+    createdAt: Date.now(),
+  };
+
+  await fs.promises.writeFile(metaPath(session.id), JSON.stringify(session));
+  await fs.promises.writeFile(uploadDataPath(session.id), "");
+
+  return { ...session, offset: 0 };
+}
+
+export async function getUpload(id: string): Promise<UploadSession | undefined> {
+  assertValidId(id);
+
+  try {
+    const meta = JSON.parse(await fs.promises.readFile(metaPath(id), "utf-8"));
+    const { size: offset } = await fs.promises.stat(uploadDataPath(id));
+    return { ...meta, offset };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Append the request body to the upload at `offset`, streaming it
+ * straight to disk. Returns the new offset. Bytes that arrived before
+ * a dropped connection are kept, so the client can resume from there.
+ */
+export async function appendToUpload(
+  id: string,
+  offset: number,
+  body: Readable
+): Promise<number> {
+  const session = await getUpload(id);
+  if (!session) throw new UploadError("Upload not found", 404);
+
+  if (offset !== session.offset) {
+    throw new UploadError(
+      `Offset mismatch: expected ${session.offset}, got ${offset}`,
+      409
+    );
+  }
+
+  if (activeWrites.has(id)) {
+    throw new UploadError("Upload is already receiving data", 409);
+  }
+
+  activeWrites.add(id);
+
+  let received = 0;
+  const limit = new Transform({
+    transform(chunk: Buffer, _enc, callback) {
+      received += chunk.length;
+      if (session.offset + received > session.size) {
+        callback(new UploadError("Upload exceeds declared size", 413));
+      } else {
+        callback(null, chunk);
+      }
+    },
+  });
+
+  try {
+    await pipeline(
+      body,
+      limit,
+      fs.createWriteStream(uploadDataPath(id), { flags: "a" })
+    );
+  } finally {
+    activeWrites.delete(id);
+  }
+
+  return session.offset + received;
+}
+
+export async function deleteUpload(id: string): Promise<void> {
+  assertValidId(id);
+  await fs.promises.rm(metaPath(id), { force: true });
+  await fs.promises.rm(uploadDataPath(id), { force: true });
+}
+
+/**
+ * Hand a finished upload over to a job. Returns the data file path;
+ * the caller becomes responsible for deleting it.
+ */
+export async function claimUpload(id: string): Promise<{
+  filePath: string;
+  fileName: string;
+}> {
+  const session = await getUpload(id);
+  if (!session) throw new UploadError("Upload not found", 404);
+
+  if (session.offset !== session.size) {
+    throw new UploadError(
+      `Upload incomplete: ${session.offset} of ${session.size} bytes`,
+      409
+    );
+  }
+
+  await fs.promises.rm(metaPath(id), { force: true });
+  return { filePath: uploadDataPath(id), fileName: session.fileName };
+}
@@ -0,0 +1,50 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { WhisperProvider, type WhisperOptions } from "./whisper";
+
+describe("WhisperProvider", () => {
+  let dir: string;
+  let options: WhisperOptions;
+
+  // A "whisper" that never finishes
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "whisper-test-"));
+    const binary = path.join(dir, "whisper-cli");
+    fs.writeFileSync(binary, "#!/bin/sh\nexec sleep 30\n", { mode: 0o755 });
+
+    options = {
+      flavor: "whisper.cpp",
+      binary,
+      model: "model.bin",
+      language: "auto",
+      threads: 1,
+      timeoutMs: 200,
+    };
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("kills a run that takes too long", async () => {
+    const provider = new WhisperProvider(options);
+
+    await expect(provider.transcribe(Buffer.alloc(44))).rejects.toThrow(
+      "timed out"
+    );
+  });
+
+  it("kills a run when the job is cancelled", async () => {
+    const provider = new WhisperProvider({ ...options, timeoutMs: 30_000 });
+    const controller = new AbortController();
+
+    const run = provider.transcribe(Buffer.alloc(44), {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 100);
+
+    await expect(run).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
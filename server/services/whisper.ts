@@ -0,0 +1,177 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import type { TranscriptSegment } from "@shared/schema";
+import type {
+  TranscriptionOptions,
+  TranscriptionProvider,
+  TranscriptionResult,
+} from "./transcription";
+
+const execFileAsync = promisify(execFile);
+
+type WhisperFlavor = "whisper.cpp" | "faster-whisper";
+
+export interface WhisperOptions {
+  flavor: WhisperFlavor;
+  // Executable to run, e.g. whisper-cli or whisper-ctranslate2
+  binary: string;
+  // whisper.cpp: path to a ggml model file; faster-whisper: model name or dir
+  model: string;
+  language: string;
+  threads: number;
+  // Kill a run that takes longer than this, e.g. a hung model load
+  timeoutMs: number;
+}
+
+function optionsFromEnv(): WhisperOptions {
+  const flavor =
+    process.env.WHISPER_FLAVOR === "faster-whisper"
+      ? "faster-whisper"
+      : "whisper.cpp";
+
+  const model = process.env.WHISPER_MODEL;
+  if (!model) {
+    throw new Error("WHISPER_MODEL is required for whisper transcription");
+  }
+
+  return {
+    flavor,
+    binary:
+      process.env.WHISPER_BIN ||
+      (flavor === "whisper.cpp" ? "whisper-cli" : "whisper-ctranslate2"),
+    model,
+    language: process.env.WHISPER_LANGUAGE || "auto",
+    threads: Number(process.env.WHISPER_THREADS) || os.cpus().length,
+    timeoutMs:
+      (Number(process.env.WHISPER_TIMEOUT_SECONDS) || 15 * 60) * 1000,
+  };
+}
+
+/**
+ * Runs a local whisper binary on CPU, so transcription works without
+ * network access (offline lab machines, CI). Speaker labels are not
+ * supported; every segment is left unlabelled.
+ */
+export class WhisperProvider implements TranscriptionProvider {
+  readonly name = "whisper";
+
+  constructor(private options: WhisperOptions = optionsFromEnv()) {}
+
+  get fingerprint(): string {
+    const { flavor, model, language } = this.options;
+    return `whisper:${flavor}:${model}:${language}`;
+  }
+
+  async transcribe(
+    audioBuffer: Buffer,
+    { signal }: TranscriptionOptions = {}
+  ): Promise<TranscriptionResult> {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "whisper-"));
+    const inputPath = path.join(tempDir, "chunk.wav");
+
+    try {
+      fs.writeFileSync(inputPath, audioBuffer);
+
+      // Aborting kills the process, so a cancelled job frees the CPU
+      const segments =
+        this.options.flavor === "whisper.cpp"
+          ? await this.runWhisperCpp(inputPath, tempDir, signal)
+          : await this.runFasterWhisper(inputPath, tempDir, signal);
+
+      return {
+        text: segments.map((s) => s.text).join(" "),
+        segments,
+      };
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  private async run(args: string[], signal?: AbortSignal) {
+    const { binary, timeoutMs } = this.options;
+
+    try {
+      await execFileAsync(binary, args, {
+        maxBuffer: 16 * 1024 * 1024,
+        timeout: timeoutMs,
+        signal,
+      });
+    } catch (err: any) {
+      // Killed by the timeout rather than by a cancelled job
+      if (err.killed && !signal?.aborted) {
+        throw new Error(
+          `${binary} timed out after ${Math.round(timeoutMs / 1000)}s`
+        );
+      }
+      throw err;
+    }
+  }
+
+  private async runWhisperCpp(
+    inputPath: string,
+    outDir: string,
+    signal?: AbortSignal
+  ): Promise<TranscriptSegment[]> {
+    const outputBase = path.join(outDir, "out");
+    const { model, language, threads } = this.options;
+
+    await this.run(
+      [
+        "-m", model,
+        "-f", inputPath,
+        "-l", language,
+        "-t", String(threads),
+        "-oj",
+        "-of", outputBase,
+        "-np",
+      ],
+      signal
+    );
+
+    // Offsets are in milliseconds
+    const output = JSON.parse(fs.readFileSync(`${outputBase}.json`, "utf-8"));
+
+    return (output.transcription ?? [])
+      .map((s: any) => ({
+        start: s.offsets.from / 1000,
+        end: s.offsets.to / 1000,
+        text: String(s.text).trim(),
+      }))
+      .filter((s: TranscriptSegment) => s.text);
+  }
+
+  private async runFasterWhisper(
+    inputPath: string,
+    outDir: string,
+    signal?: AbortSignal
+  ): Promise<TranscriptSegment[]> {
+    const { model, language, threads } = this.options;
+    const args = [
+      inputPath,
+      "--model", model,
+      "--device", "cpu",
+      "--threads", String(threads),
+      "--output_format", "json",
+      "--output_dir", outDir,
+    ];
+
+    // faster-whisper auto-detects when no language is passed
+    if (language !== "auto") args.push("--language", language);
+
+    await this.run(args, signal);
+
+    const outputPath = path.join(outDir, `${path.parse(inputPath).name}.json`);
+    const output = JSON.parse(fs.readFileSync(outputPath, "utf-8"));
+
+    return (output.segments ?? [])
+      .map((s: any) => ({
+        start: s.start,
+        end: s.end,
+        text: String(s.text).trim(),
+      }))
+      .filter((s: TranscriptSegment) => s.text);
+  }
+}
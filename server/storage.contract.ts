@@ -0,0 +1,306 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  insertNoteSchema,
+  qaPairItemSchema,
+  structuredNoteItemSchema,
+  type InsertNote,
+  type InsertNoteVersion,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export interface StorageBackend {
+  // Once before the suite, e.g. to migrate a database
+  setup?: () => Promise<void>;
+  // An empty store for every test
+  create: () => Promise<IStorage>;
+  teardown?: () => Promise<void>;
+}
+
+export function sampleNote(overrides: Partial<InsertNote> = {}): InsertNote {
+  return {
+    fileName: "lecture.mp3",
+    transcription: "Cells turn glucose into energy.",
+    summary: "Respiration releases energy from glucose.",
+    structuredNotes: [
+      { heading: "Respiration", points: ["Uses glucose", "Makes ATP"] },
+      { heading: "Mitochondria", points: ["Where it happens"] },
+    ],
+    qaPairs: [
+      { question: "What is ATP?", answer: "The energy currency", marks: 2 },
+      { question: "Explain respiration.", answer: "Oxidation", marks: 5 },
+    ],
+    segments: [{ start: 0, end: 4.5, text: "Cells turn glucose into energy." }],
+    classQuestions: [],
+    chunks: [],
+    audioFile: null,
+    failedChunks: [],
+    mode: "theory",
+    marksList: [2, 5],
+    instructions: null,
+    ...overrides,
+  };
+}
+
+function sampleVersion(noteId: number, summary: string): InsertNoteVersion {
+  return {
+    noteId,
+    mode: "theory",
+    marksList: [2],
+    instructions: null,
+    summary,
+    structuredNotes: [{ heading: summary, points: [] }],
+    qaPairs: [],
+    classQuestions: [],
+  };
+}
+
+/**
+ * What every IStorage backend must do the same way. Call from a test
+ * file with the backend to check; tests never rely on each other.
+ */
+export function describeStorageContract(name: string, backend: StorageBackend) {
+  describe(`${name} (IStorage contract)`, () => {
+    let storage: IStorage;
+
+    if (backend.setup) beforeAll(backend.setup, 60_000);
+    beforeEach(async () => {
+      storage = await backend.create();
+    });
+    if (backend.teardown) afterAll(backend.teardown);
+
+    /* ---------------- NOTES ---------------- */
+
+    describe("notes", () => {
+      it("reads back exactly the generated notes it was given", async () => {
+        const input = sampleNote();
+        const created = await storage.createNote(input);
+        const stored = await storage.getNote(created.id);
+
+        expect(stored).toEqual(created);
+        expect(stored).toMatchObject(input);
+
+        // Still valid notes once they have been through the backend
+        insertNoteSchema.parse(stored);
+        z.array(structuredNoteItemSchema).parse(stored!.structuredNotes);
+        z.array(qaPairItemSchema).parse(stored!.qaPairs);
+      });
+
+      it("gives each note its own id", async () => {
+        const first = await storage.createNote(sampleNote());
+        const second = await storage.createNote(sampleNote());
+
+        expect(first.id).not.toBe(second.id);
+      });
+
+      it("has nothing for an unknown id", async () => {
+        expect(await storage.getNote(999)).toBeUndefined();
+        expect(
+          await storage.updateNote(999, { fileName: "x" })
+        ).toBeUndefined();
+        expect(await storage.deleteNote(999)).toBe(false);
+      });
+
+      it("lists summaries newest first, a page at a time", async () => {
+        const ids: number[] = [];
+        for (const fileName of ["a.mp3", "b.mp3", "c.mp3"]) {
+          ids.push((await storage.createNote(sampleNote({ fileName }))).id);
+        }
+
+        const firstPage = await storage.listNotes({ limit: 2, offset: 0 });
+        const secondPage = await storage.listNotes({ limit: 2, offset: 2 });
+
+        expect(firstPage.map((note) => note.id)).toEqual([ids[2], ids[1]]);
+        expect(secondPage.map((note) => note.id)).toEqual([ids[0]]);
+        expect(firstPage[0]).toEqual({
+          id: ids[2],
+          fileName: "c.mp3",
+          createdAt: expect.any(Date),
+        });
+      });
+
+      it("changes only the fields it is given", async () => {
+        const note = await storage.createNote(sampleNote());
+        const structuredNotes = [{ heading: "Rewritten", points: ["One"] }];
+        const qaPairs = [{ question: "Why?", answer: "Because", marks: 10 }];
+
+        const updated = await storage.updateNote(note.id, {
+          structuredNotes,
+          qaPairs,
+        });
+
+        expect(updated).toEqual({ ...note, structuredNotes, qaPairs });
+        expect(await storage.getNote(note.id)).toEqual(updated);
+      });
+
+      it("deletes a note with its versions", async () => {
+        const note = await storage.createNote(sampleNote());
+        await storage.createNoteVersion(sampleVersion(note.id, "Older"));
+
+        expect(await storage.deleteNote(note.id)).toBe(true);
+        expect(await storage.getNote(note.id)).toBeUndefined();
+        expect(await storage.listNoteVersions(note.id)).toEqual([]);
+      });
+
+      it("keeps a deleted note's jobs, detached from it", async () => {
+        const note = await storage.createNote(sampleNote());
+        const job = await storage.createJob({
+          fileName: "lecture.mp3",
+          noteId: note.id,
+        });
+
+        expect(await storage.deleteNote(note.id)).toBe(true);
+
+        expect((await storage.getJob(job.id))?.noteId).toBeNull();
+      });
+    });
+
+    /* ---------------- NOTE VERSIONS ---------------- */
+
+    describe("note versions", () => {
+      it("lists a note's versions newest first", async () => {
+        const note = await storage.createNote(sampleNote());
+        const other = await storage.createNote(sampleNote());
+        await storage.createNoteVersion(sampleVersion(note.id, "First"));
+        await storage.createNoteVersion(sampleVersion(other.id, "Elsewhere"));
+        await storage.createNoteVersion(sampleVersion(note.id, "Second"));
+
+        const versions = await storage.listNoteVersions(note.id);
+
+        expect(versions.map((v) => v.summary)).toEqual(["Second", "First"]);
+        expect(versions[0]).toMatchObject(sampleVersion(note.id, "Second"));
+      });
+    });
+
+    /* ---------------- JOBS ---------------- */
+
+    describe("jobs", () => {
+      it("starts a job queued", async () => {
+        const job = await storage.createJob({ fileName: "lecture.mp3" });
+
+        expect(job).toMatchObject({
+          fileName: "lecture.mp3",
+          status: "queued",
+          stage: "queued",
+          progress: 0,
+          noteId: null,
+          error: null,
+          checkpoint: null,
+        });
+        expect(await storage.getJob(job.id)).toEqual(job);
+      });
+
+      it("merges updates and keeps the checkpoint intact", async () => {
+        const job = await storage.createJob({ fileName: "lecture.mp3" });
+        const checkpoint = {
+          transcripts: { abc: { text: "Hello", segments: [] } },
+          summaries: {
+            def: {
+              summary: "Hi",
+              structuredNotes: [{ heading: "H", points: [] }],
+            },
+          },
+        };
+
+        const updated = await storage.updateJob(job.id, {
+          stage: "transcribing",
+          progress: 35,
+          checkpoint,
+        });
+
+        expect(updated).toMatchObject({
+          fileName: "lecture.mp3",
+          status: "queued",
+          stage: "transcribing",
+          progress: 35,
+          checkpoint,
+        });
+        expect(updated!.updatedAt.getTime()).toBeGreaterThanOrEqual(
+          job.updatedAt.getTime()
+        );
+        expect(await storage.updateJob(999, { progress: 1 })).toBeUndefined();
+      });
+
+      it("never overwrites a finished job's status", async () => {
+        const job = await storage.createJob({ fileName: "lecture.mp3" });
+        await storage.updateJob(job.id, { status: "cancelled" });
+
+        expect(
+          await storage.updateUnfinishedJob(job.id, { status: "completed" })
+        ).toBeUndefined();
+        expect((await storage.getJob(job.id))?.status).toBe("cancelled");
+      });
+
+      it("skips an unfinished job in the excepted stage", async () => {
+        const job = await storage.createJob({
+          fileName: "lecture.mp3",
+          status: "processing",
+          stage: "saving",
+        });
+
+        expect(
+          await storage.updateUnfinishedJob(
+            job.id,
+            { status: "cancelled" },
+            "saving"
+          )
+        ).toBeUndefined();
+        expect(
+          await storage.updateUnfinishedJob(job.id, { status: "completed" })
+        ).toMatchObject({ status: "completed" });
+      });
+
+      it("fails only the jobs that were still running", async () => {
+        const queued = await storage.createJob({ fileName: "a.mp3" });
+        const done = await storage.createJob({
+          fileName: "b.mp3",
+          status: "completed",
+        });
+
+        expect(await storage.failUnfinishedJobs("Interrupted")).toBe(1);
+        expect(await storage.getJob(queued.id)).toMatchObject({
+          status: "failed",
+          error: "Interrupted",
+        });
+        expect((await storage.getJob(done.id))?.status).toBe("completed");
+      });
+
+      it("deletes a job once", async () => {
+        const job = await storage.createJob({ fileName: "lecture.mp3" });
+
+        expect(await storage.deleteJob(job.id)).toBe(true);
+        expect(await storage.deleteJob(job.id)).toBe(false);
+        expect(await storage.getJob(job.id)).toBeUndefined();
+      });
+    });
+
+    /* ---------------- TRANSCRIPT CACHE ---------------- */
+
+    describe("transcript cache", () => {
+      it("keeps the last transcript saved under a key", async () => {
+        expect(await storage.getCachedTranscript("file:abc")).toBeUndefined();
+
+        await storage.saveCachedTranscript({
+          key: "file:abc",
+          transcription: "First",
+          segments: [],
+          chunks: [],
+        });
+        await storage.saveCachedTranscript({
+          key: "file:abc",
+          transcription: "Second",
+          segments: [{ start: 0, end: 1, text: "Second" }],
+          chunks: [{ start: 0, end: 1, cut: "end", overlap: 0 }],
+        });
+
+        expect(await storage.getCachedTranscript("file:abc")).toEqual({
+          key: "file:abc",
+          transcription: "Second",
+          segments: [{ start: 0, end: 1, text: "Second" }],
+          chunks: [{ start: 0, end: 1, cut: "end", overlap: 0 }],
+          createdAt: expect.any(Date),
+        });
+      });
+    });
+  });
+}
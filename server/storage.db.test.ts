@@ -0,0 +1,55 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { sampleNote } from "./storage.contract";
+import { DatabaseStorage } from "./storage";
+import { createTestDb } from "./test-db";
+
+// Runs the real migrations, so these catch schema drift too
+describe("DatabaseStorage", () => {
+  const testDb = createTestDb();
+  const storage = new DatabaseStorage(testDb.db);
+
+  // Starting PGlite and migrating takes a few seconds
+  beforeAll(() => storage.init(), 60_000);
+  beforeEach(() => testDb.reset());
+  afterAll(() => testDb.close());
+
+  it("can run the migrations again on an up to date database", async () => {
+    const note = await storage.createNote(sampleNote());
+
+    await storage.init();
+
+    expect(await storage.getNote(note.id)).toEqual(note);
+  });
+
+  it("stores every note column", async () => {
+    const input = sampleNote({
+      segments: [
+        { start: 0, end: 3, text: "Any questions?", speaker: "lecturer" },
+      ],
+      classQuestions: [{ question: "Is ATP stored?", answer: "Barely" }],
+      chunks: [{ start: 0, end: 600, cut: "silence", overlap: 0 }],
+      audioFile: "notes/1.m4a",
+      failedChunks: [
+        {
+          stage: "transcription",
+          index: 1,
+          start: 600,
+          end: 1200,
+          error: "timeout",
+        },
+      ],
+      mode: "numerical",
+      marksList: [5],
+      instructions: "Focus on equations",
+    });
+
+    const created = await storage.createNote(input);
+    const stored = await storage.getNote(created.id);
+
+    expect(stored).toEqual({
+      ...input,
+      id: created.id,
+      createdAt: expect.any(Date),
+    });
+  });
+});
@@ -0,0 +1,19 @@
+import { describeStorageContract } from "./storage.contract";
+import { DatabaseStorage, MemStorage } from "./storage";
+import { createTestDb } from "./test-db";
+
+describeStorageContract("MemStorage", {
+  create: async () => new MemStorage(),
+});
+
+const testDb = createTestDb();
+const database = new DatabaseStorage(testDb.db);
+
+describeStorageContract("DatabaseStorage", {
+  setup: () => database.init(),
+  create: async () => {
+    await testDb.reset();
+    return database;
+  },
+  teardown: () => testDb.close(),
+});
@@ -1,32 +1,377 @@
-import { type Note, type InsertNote } from "@shared/schema";
+import { and, desc, eq, inArray, ne } from "drizzle-orm";
+import {
+  notes,
+  noteVersions,
+  jobs,
+  transcriptCache,
+  type Note,
+  type InsertNote,
+  type UpdateNote,
+  type NoteSummary,
+  type NoteVersion,
+  type InsertNoteVersion,
+  type Job,
+  type InsertJob,
+  type UpdateJob,
+  type JobStage,
+  type CachedTranscript,
+  type InsertCachedTranscript,
+} from "@shared/schema";
+import { createDb, migrateDb, type Database } from "./db";
+
+export interface ListOptions {
+  limit: number;
+  offset: number;
+}
 
 export interface IStorage {
   createNote(note: InsertNote): Promise<Note>;
+  getNote(id: number): Promise<Note | undefined>;
+  // Newest first
+  listNotes(options: ListOptions): Promise<NoteSummary[]>;
+  updateNote(id: number, update: UpdateNote): Promise<Note | undefined>;
+  deleteNote(id: number): Promise<boolean>;
+
+  createNoteVersion(version: InsertNoteVersion): Promise<NoteVersion>;
+  // Newest first
+  listNoteVersions(noteId: number): Promise<NoteVersion[]>;
+
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: number): Promise<Job | undefined>;
+  updateJob(id: number, update: UpdateJob): Promise<Job | undefined>;
+  // Only applied while the job is queued or processing and not in
+  // exceptStage, so a final status is never overwritten
+  updateUnfinishedJob(
+    id: number,
+    update: UpdateJob,
+    exceptStage?: JobStage
+  ): Promise<Job | undefined>;
+  deleteJob(id: number): Promise<boolean>;
+  // Mark queued and processing jobs failed; returns how many there were
+  failUnfinishedJobs(error: string): Promise<number>;
+
+  getCachedTranscript(key: string): Promise<CachedTranscript | undefined>;
+  // Last write wins; entries for the same key are interchangeable
+  saveCachedTranscript(entry: InsertCachedTranscript): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
   private notes: Map<number, Note>;
+  private versions: Map<number, NoteVersion>;
+  private jobs: Map<number, Job>;
+  private transcripts: Map<string, CachedTranscript>;
   private currentId: number;
+  private currentJobId: number;
+  private currentVersionId: number;
 
   constructor() {
     this.notes = new Map();
+    this.versions = new Map();
+    this.jobs = new Map();
+    this.transcripts = new Map();
     this.currentId = 1;
+    this.currentJobId = 1;
+    this.currentVersionId = 1;
   }
 
   async createNote(insertNote: InsertNote): Promise<Note> {
     const id = this.currentId++;
-    const note = {
-  id,
-  ...insertNote,
-  summary: null,
-  structuredNotes: [],
-  qaPairs: [],
-} as Note;
+    const note: Note = {
+      ...insertNote,
+      id,
+      createdAt: new Date(),
+    };
+
+    this.notes.set(id, note);
+    return note;
+  }
+
+  async getNote(id: number): Promise<Note | undefined> {
+    return this.notes.get(id);
+  }
 
+  async listNotes({ limit, offset }: ListOptions): Promise<NoteSummary[]> {
+    return Array.from(this.notes.values())
+      .sort(
+        (a, b) =>
+          b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id
+      )
+      .slice(offset, offset + limit)
+      .map(({ id, fileName, createdAt }) => ({ id, fileName, createdAt }));
+  }
+
+  async updateNote(id: number, update: UpdateNote): Promise<Note | undefined> {
+    const existing = this.notes.get(id);
+    if (!existing) return undefined;
 
+    const note = { ...existing, ...update };
     this.notes.set(id, note);
     return note;
   }
+
+  async deleteNote(id: number): Promise<boolean> {
+    for (const version of Array.from(this.versions.values())) {
+      if (version.noteId === id) this.versions.delete(version.id);
+    }
+    // Jobs outlive their note, like the foreign key's "set null"
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.noteId === id) this.jobs.set(job.id, { ...job, noteId: null });
+    }
+    return this.notes.delete(id);
+  }
+
+  /* ---------------- NOTE VERSIONS ---------------- */
+
+  async createNoteVersion(insertVersion: InsertNoteVersion): Promise<NoteVersion> {
+    const id = this.currentVersionId++;
+    const version: NoteVersion = { ...insertVersion, id, createdAt: new Date() };
+    this.versions.set(id, version);
+    return version;
+  }
+
+  async listNoteVersions(noteId: number): Promise<NoteVersion[]> {
+    return Array.from(this.versions.values())
+      .filter((v) => v.noteId === noteId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  /* ---------------- JOBS ---------------- */
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = this.currentJobId++;
+    const now = new Date();
+    const job: Job = {
+      status: "queued",
+      stage: "queued",
+      progress: 0,
+      message: null,
+      result: null,
+      error: null,
+      noteId: null,
+      input: null,
+      checkpoint: null,
+      ...insertJob,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async updateJob(id: number, update: UpdateJob): Promise<Job | undefined> {
+    const existing = this.jobs.get(id);
+    if (!existing) return undefined;
+
+    const job = { ...existing, ...update, updatedAt: new Date() };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async updateUnfinishedJob(
+    id: number,
+    update: UpdateJob,
+    exceptStage?: JobStage
+  ): Promise<Job | undefined> {
+    const existing = this.jobs.get(id);
+    if (!existing) return undefined;
+    if (existing.status !== "queued" && existing.status !== "processing") {
+      return undefined;
+    }
+    if (exceptStage && existing.stage === exceptStage) return undefined;
+
+    return this.updateJob(id, update);
+  }
+
+  async deleteJob(id: number): Promise<boolean> {
+    return this.jobs.delete(id);
+  }
+
+  async failUnfinishedJobs(error: string): Promise<number> {
+    let count = 0;
+
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.status !== "queued" && job.status !== "processing") continue;
+
+      this.jobs.set(job.id, {
+        ...job,
+        status: "failed",
+        error,
+        updatedAt: new Date(),
+      });
+      count++;
+    }
+
+    return count;
+  }
+
+  /* ---------------- TRANSCRIPT CACHE ---------------- */
+
+  async getCachedTranscript(key: string): Promise<CachedTranscript | undefined> {
+    return this.transcripts.get(key);
+  }
+
+  async saveCachedTranscript(entry: InsertCachedTranscript): Promise<void> {
+    this.transcripts.set(entry.key, { ...entry, createdAt: new Date() });
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  /** Bring the schema up to date before the first query. */
+  async init(): Promise<void> {
+    await migrateDb(this.db);
+  }
+
+  async createNote(insertNote: InsertNote): Promise<Note> {
+    const [note] = await this.db.insert(notes).values(insertNote).returning();
+    return note;
+  }
+
+  async getNote(id: number): Promise<Note | undefined> {
+    const [note] = await this.db.select().from(notes).where(eq(notes.id, id));
+    return note;
+  }
+
+  async listNotes({ limit, offset }: ListOptions): Promise<NoteSummary[]> {
+    return this.db
+      .select({
+        id: notes.id,
+        fileName: notes.fileName,
+        createdAt: notes.createdAt,
+      })
+      .from(notes)
+      .orderBy(desc(notes.createdAt), desc(notes.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async updateNote(id: number, update: UpdateNote): Promise<Note | undefined> {
+    const [note] = await this.db
+      .update(notes)
+      .set(update)
+      .where(eq(notes.id, id))
+      .returning();
+    return note;
+  }
+
+  async deleteNote(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(notes)
+      .where(eq(notes.id, id))
+      .returning({ id: notes.id });
+    return deleted.length > 0;
+  }
+
+  /* ---------------- NOTE VERSIONS ---------------- */
+
+  async createNoteVersion(insertVersion: InsertNoteVersion): Promise<NoteVersion> {
+    const [version] = await this.db
+      .insert(noteVersions)
+      .values(insertVersion)
+      .returning();
+    return version;
+  }
+
+  async listNoteVersions(noteId: number): Promise<NoteVersion[]> {
+    return this.db
+      .select()
+      .from(noteVersions)
+      .where(eq(noteVersions.noteId, noteId))
+      .orderBy(desc(noteVersions.createdAt), desc(noteVersions.id));
+  }
+
+  /* ---------------- JOBS ---------------- */
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await this.db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async updateJob(id: number, update: UpdateJob): Promise<Job | undefined> {
+    const changes: UpdateJob = { ...update, updatedAt: new Date() };
+    const [job] = await this.db
+      .update(jobs)
+      .set(changes)
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async updateUnfinishedJob(
+    id: number,
+    update: UpdateJob,
+    exceptStage?: JobStage
+  ): Promise<Job | undefined> {
+    const changes: UpdateJob = { ...update, updatedAt: new Date() };
+    const [job] = await this.db
+      .update(jobs)
+      .set(changes)
+      .where(
+        and(
+          eq(jobs.id, id),
+          inArray(jobs.status, ["queued", "processing"]),
+          exceptStage ? ne(jobs.stage, exceptStage) : undefined
+        )
+      )
+      .returning();
+    return job;
+  }
+
+  async deleteJob(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(jobs)
+      .where(eq(jobs.id, id))
+      .returning({ id: jobs.id });
+    return deleted.length > 0;
+  }
+
+  async failUnfinishedJobs(error: string): Promise<number> {
+    const changes: UpdateJob = {
+      status: "failed",
+      error,
+      updatedAt: new Date(),
+    };
+    const failed = await this.db
+      .update(jobs)
+      .set(changes)
+      .where(inArray(jobs.status, ["queued", "processing"]))
+      .returning({ id: jobs.id });
+    return failed.length;
+  }
+
+  /* ---------------- TRANSCRIPT CACHE ---------------- */
+
+  async getCachedTranscript(key: string): Promise<CachedTranscript | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(transcriptCache)
+      .where(eq(transcriptCache.key, key));
+    return entry;
+  }
+
+  async saveCachedTranscript(entry: InsertCachedTranscript): Promise<void> {
+    const { key, ...values } = entry;
+    await this.db
+      .insert(transcriptCache)
+      .values(entry)
+      .onConflictDoUpdate({ target: transcriptCache.key, set: values });
+  }
 }
 
-export const storage = new MemStorage();
+// Persist to Postgres when a database is provisioned, otherwise keep
+// everything in memory (lost on restart)
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
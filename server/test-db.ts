@@ -0,0 +1,26 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+
+/**
+ * An in-process Postgres for tests, empty until migrated. Only the
+ * driver differs from production, so it stands in for `Database`.
+ */
+export function createTestDb() {
+  const client = new PGlite();
+  const db = drizzle(client, { schema }) as unknown as Database;
+
+  // Starting a fresh database per test is slow; emptying one is not
+  const reset = async () => {
+    const { rows } = await client.query<{ tablename: string }>(
+      "SELECT tablename FROM pg_tables WHERE schemaname = 'public'"
+    );
+    if (rows.length === 0) return;
+
+    const tables = rows.map((row) => `"${row.tablename}"`).join(", ");
+    await client.exec(`TRUNCATE ${tables} RESTART IDENTITY CASCADE`);
+  };
+
+  return { db, reset, close: () => client.close() };
+}
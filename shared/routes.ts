@@ -2,4 +2,88 @@ export const api = {
   process: {
     path: "/api/process",
   },
+  transcripts: {
+    ingest: {
+      path: "/api/transcripts",
+    },
+  },
+  uploads: {
+    create: {
+      path: "/api/uploads",
+    },
+    status: {
+      path: "/api/uploads/:id",
+    },
+    append: {
+      path: "/api/uploads/:id",
+    },
+    delete: {
+      path: "/api/uploads/:id",
+    },
+  },
+  notes: {
+    list: {
+      path: "/api/notes",
+    },
+    get: {
+      path: "/api/notes/:id",
+    },
+    update: {
+      path: "/api/notes/:id",
+    },
+    delete: {
+      path: "/api/notes/:id",
+    },
+    audio: {
+      path: "/api/notes/:id/audio",
+    },
+    regenerate: {
+      path: "/api/notes/:id/regenerate",
+    },
+    versions: {
+      path: "/api/notes/:id/versions",
+    },
+    // Another recording of the same lecture, joined after the current one
+    appendPart: {
+      path: "/api/notes/:id/parts",
+    },
+  },
+  // WebSocket, see server/live.ts
+  live: {
+    path: "/api/live",
+  },
+  jobs: {
+    get: {
+      path: "/api/jobs/:id",
+    },
+    delete: {
+      path: "/api/jobs/:id",
+    },
+    events: {
+      path: "/api/jobs/:id/events",
+    },
+    // Outside /api/jobs/ so it can't be read as a job id
+    batchEvents: {
+      path: "/api/job-events",
+    },
+    resume: {
+      path: "/api/jobs/:id/resume",
+    },
+    cancel: {
+      path: "/api/jobs/:id/cancel",
+    },
+  },
 };
+
+/**
+ * Fill `:param` placeholders in a route path.
+ */
+export function buildUrl(
+  path: string,
+  params: Record<string, string | number> = {}
+): string {
+  return Object.entries(params).reduce(
+    (url, [key, value]) => url.replace(`:${key}`, String(value)),
+    path
+  );
+}
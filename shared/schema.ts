@@ -1,7 +1,9 @@
-import { pgTable, text, serial, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, jsonb, integer, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export type LectureMode = "theory" | "numerical";
+
 // We define the table even for MemStorage to reuse types
 export const notes = pgTable("notes", {
   id: serial("id").primaryKey(),
@@ -18,12 +20,78 @@ export const notes = pgTable("notes", {
   qaPairs: jsonb("qa_pairs")
     .$type<{ question: string; answer: string; marks: number }[]>()
     .notNull(),
+
+  // Timed transcript passages, seconds from the start of the recording
+  segments: jsonb("segments")
+    .$type<TranscriptSegment[]>()
+    .notNull()
+    .default([]),
+
+  // Student questions picked out of non-lecturer turns (optional)
+  classQuestions: jsonb("class_questions")
+    .$type<ClassQuestionItem[]>()
+    .notNull()
+    .default([]),
+
+  // Where the recording was cut for transcription
+  chunks: jsonb("chunks")
+    .$type<ChunkBoundary[]>()
+    .notNull()
+    .default([]),
+
+  // Original recording kept on disk for playback, relative to AUDIO_DIR
+  audioFile: text("audio_file"),
+
+  // Chunks that still failed after retries; the notes were built without them
+  failedChunks: jsonb("failed_chunks")
+    .$type<FailedChunk[]>()
+    .notNull()
+    .default([]),
+
+  // Settings the current summary and Q&A were generated with
+  mode: text("mode").$type<LectureMode>().notNull().default("theory"),
+  marksList: jsonb("marks_list").$type<number[]>().notNull().default([2, 5]),
+  instructions: text("instructions"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertNoteSchema = createInsertSchema(notes);
 
 export type Note = typeof notes.$inferSelect;
-export type InsertNote = z.infer<typeof insertNoteSchema>;
+// Spelled out because drizzle-zod's inferred type collapses to {} with our
+// zod version, and $inferInsert drops defaulted columns without strict mode
+export type InsertNote = Omit<Note, "id" | "createdAt">;
+export type UpdateNote = Partial<Omit<Note, "id" | "createdAt">>;
+// A row of the notes list; transcripts and segments are left out
+export type NoteSummary = Pick<Note, "id" | "fileName" | "createdAt">;
+
+// Earlier generations, archived when a note is regenerated
+export const noteVersions = pgTable("note_versions", {
+  id: serial("id").primaryKey(),
+  noteId: integer("note_id")
+    .references(() => notes.id, { onDelete: "cascade" })
+    .notNull(),
+  mode: text("mode").$type<LectureMode>().notNull(),
+  marksList: jsonb("marks_list").$type<number[]>().notNull(),
+  instructions: text("instructions"),
+  summary: text("summary").notNull(),
+  structuredNotes: jsonb("structured_notes")
+    .$type<{ heading: string; points: string[] }[]>()
+    .notNull(),
+  qaPairs: jsonb("qa_pairs")
+    .$type<{ question: string; answer: string; marks: number }[]>()
+    .notNull(),
+  classQuestions: jsonb("class_questions")
+    .$type<ClassQuestionItem[]>()
+    .notNull()
+    .default([]),
+  // When this generation was replaced
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type NoteVersion = typeof noteVersions.$inferSelect;
+export type InsertNoteVersion = Omit<NoteVersion, "id" | "createdAt">;
 
 // Explicit sub-types for frontend usage
 export const structuredNoteItemSchema = z.object({
@@ -38,5 +106,174 @@ export const qaPairItemSchema = z.object({
   marks: z.number().int().positive(),
 });
 
+// Speakers are reconciled into roles since raw diarization labels
+// only mean something within a single chunk
+export const speakerRoleSchema = z.enum(["lecturer", "student"]);
+
+export const transcriptSegmentSchema = z.object({
+  start: z.number().nonnegative(),
+  end: z.number().nonnegative(),
+  text: z.string(),
+  // Provider label per chunk ("A", "B"...), a SpeakerRole once merged
+  speaker: z.string().optional(),
+});
+
+export const classQuestionItemSchema = z.object({
+  question: z.string(),
+  answer: z.string(),
+});
+
+// "silence" cuts fall in a detected pause; "hard" cuts found no pause
+// in the window and overlap the next chunk by `overlap` seconds
+export const chunkBoundarySchema = z.object({
+  start: z.number().nonnegative(),
+  end: z.number().nonnegative(),
+  cut: z.enum(["silence", "hard", "end"]),
+  overlap: z.number().nonnegative(),
+});
+
+export const failedChunkSchema = z.object({
+  stage: z.enum(["transcription", "summary"]),
+  index: z.number().int().nonnegative(),
+  // Stretch of the recording, for transcription chunks
+  start: z.number().nonnegative().optional(),
+  end: z.number().nonnegative().optional(),
+  error: z.string(),
+});
+
 export type StructuredNoteItem = z.infer<typeof structuredNoteItemSchema>;
 export type QaPairItem = z.infer<typeof qaPairItemSchema>;
+export type SpeakerRole = z.infer<typeof speakerRoleSchema>;
+export type TranscriptSegment = z.infer<typeof transcriptSegmentSchema>;
+export type ClassQuestionItem = z.infer<typeof classQuestionItemSchema>;
+export type ChunkBoundary = z.infer<typeof chunkBoundarySchema>;
+export type FailedChunk = z.infer<typeof failedChunkSchema>;
+
+/* ---------------- PROCESSING JOBS ---------------- */
+
+export type JobStatus =
+  | "queued"
+  | "processing"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type JobStage =
+  | "queued"
+  | "preparing"
+  | "splitting"
+  | "transcribing"
+  | "summarizing"
+  | "saving"
+  | "done";
+
+// Same shape the AI pipeline returns, kept here so the client can type it
+export interface LectureResult {
+  transcription: string;
+  summary: string;
+  structuredNotes: StructuredNoteItem[];
+  qaPairs: QaPairItem[];
+  segments: TranscriptSegment[];
+  classQuestions: ClassQuestionItem[];
+  chunks: ChunkBoundary[];
+  failedChunks?: FailedChunk[];
+}
+
+/**
+ * Per-chunk results saved while a job runs, keyed by a hash of the chunk
+ * audio or section text, so a resumed job only redoes the chunks that
+ * never finished.
+ */
+export interface JobCheckpoint {
+  transcripts: Record<string, { text: string; segments: TranscriptSegment[] }>;
+  summaries: Record<
+    string,
+    { summary: string; structuredNotes: { heading: string; points: string[] }[] }
+  >;
+}
+
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  fileName: text("file_name").notNull(),
+  status: text("status").$type<JobStatus>().notNull().default("queued"),
+  stage: text("stage").$type<JobStage>().notNull().default("queued"),
+  progress: integer("progress").notNull().default(0),
+  message: text("message"),
+  result: jsonb("result").$type<LectureResult>(),
+  error: text("error"),
+  noteId: integer("note_id").references(() => notes.id, {
+    onDelete: "set null",
+  }),
+  // What the job was started with, so a failed job can be resumed
+  input: jsonb("input").$type<unknown>(),
+  checkpoint: jsonb("checkpoint").$type<JobCheckpoint>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type Job = typeof jobs.$inferSelect;
+export type UpdateJob = Partial<Omit<Job, "id" | "createdAt">>;
+export type InsertJob = Pick<Job, "fileName"> & UpdateJob;
+
+// Fine-grained pipeline milestones streamed to the client over SSE
+export type ProgressEvent =
+  | { type: "parts_joined"; parts: number }
+  | { type: "audio_prepared"; removedSeconds: number }
+  | { type: "audio_split"; chunks: number }
+  | { type: "transcript_cached" }
+  | { type: "chunk_transcribed"; chunk: number; total: number }
+  | { type: "summary_batch"; batch: number; total: number }
+  | { type: "qa_generation" }
+  | { type: "class_questions" }
+  | { type: "saved"; noteId: number };
+
+export interface JobProgress {
+  jobId: number;
+  status: JobStatus;
+  stage: JobStage;
+  progress: number;
+  message: string | null;
+  event?: ProgressEvent;
+  result?: LectureResult | null;
+  noteId?: number | null;
+  error?: string | null;
+}
+
+/* ---------------- LIVE TRANSCRIPTION ---------------- */
+
+// JSON control messages on the live socket; audio goes as binary frames
+export type LiveClientMessage =
+  | {
+      type: "start";
+      mode: LectureMode;
+      marksList: number[];
+      separateQuestions?: boolean;
+    }
+  | { type: "stop" };
+
+export type LiveServerMessage =
+  | { type: "ready" }
+  // New segments since the last partial, seconds from recording start
+  | { type: "partial"; segments: TranscriptSegment[] }
+  // The recording was queued as a normal job; follow it over SSE
+  | { type: "finalizing"; jobId: number }
+  | { type: "error"; message: string };
+
+/* ---------------- TRANSCRIPT CACHE ---------------- */
+
+// Keyed by a hash of the audio plus every setting that shapes the
+// transcript, so the same recording is only paid for once
+export const transcriptCache = pgTable("transcript_cache", {
+  key: text("key").primaryKey(),
+  transcription: text("transcription").notNull(),
+  segments: jsonb("segments")
+    .$type<TranscriptSegment[]>()
+    .notNull()
+    .default([]),
+  // Only set for whole-file entries; per-chunk entries leave it empty
+  chunks: jsonb("chunks").$type<ChunkBoundary[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type CachedTranscript = typeof transcriptCache.$inferSelect;
+export type InsertCachedTranscript = Omit<CachedTranscript, "createdAt">;